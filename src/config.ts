@@ -2,9 +2,59 @@ import { readFileSync, existsSync, mkdirSync } from 'fs';
 import { resolve } from 'path';
 import { homedir } from 'os';
 
+/**
+ * A configured language extractor: either a module exporting LanguageExtractor
+ * objects, or extra extensions mapped onto an existing language
+ */
+export interface ExtractorConfig {
+  module?: string;
+  language?: string;
+  extensions?: string[];
+  fence?: string;
+}
+
 export interface Config {
   searchableDirectories: string[];
   cacheDir: string;
+  extractors: ExtractorConfig[];
+}
+
+/**
+ * Validates the optional `extractors` config entry
+ */
+function parseExtractorConfigs(value: unknown): ExtractorConfig[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    throw new Error('Invalid configuration: extractors must be an array');
+  }
+
+  return value.map((entry: unknown, index) => {
+    if (typeof entry !== 'object' || entry === null) {
+      throw new Error(`Invalid configuration: extractors[${index}] must be an object`);
+    }
+    const { module, language, extensions, fence } = entry as Record<string, unknown>;
+
+    if (typeof module !== 'string' && typeof language !== 'string') {
+      throw new Error(
+        `Invalid configuration: extractors[${index}] needs a "module" path or a "language" id`
+      );
+    }
+    if (
+      extensions !== undefined &&
+      (!Array.isArray(extensions) || !extensions.every((ext) => typeof ext === 'string'))
+    ) {
+      throw new Error(`Invalid configuration: extractors[${index}].extensions must be strings`);
+    }
+
+    return {
+      module: typeof module === 'string' ? resolve(module) : undefined,
+      language: typeof language === 'string' ? language : undefined,
+      extensions,
+      fence: typeof fence === 'string' ? fence : undefined,
+    };
+  });
 }
 
 export function loadConfig(mcpConfig?: unknown): Config {
@@ -95,5 +145,6 @@ export function loadConfig(mcpConfig?: unknown): Config {
   return {
     searchableDirectories: resolvedDirectories,
     cacheDir,
+    extractors: parseExtractorConfigs(finalConfig['extractors']),
   };
 }
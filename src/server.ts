@@ -5,6 +5,10 @@ import { loadConfig } from './config.js';
 import { z } from 'zod';
 import { fetchContext } from './tools/fetchContext.js';
 import { updateConfig } from './tools/updateConfig.js';
+import { getSymbol } from './tools/getSymbol.js';
+import { findUsages } from './tools/findUsages.js';
+import { findCycles } from './tools/findCycles.js';
+import { loadConfiguredExtractors } from './utils/codeExtractor.js';
 
 // Tool input schema
 const FetchContextSchema = z.object({
@@ -16,21 +20,172 @@ const FetchContextSchema = z.object({
   globs: z
     .array(z.string())
     .optional()
-    .describe('Glob patterns to match files (e.g., ["**/*.dart", "lib/**/*_widget.dart"])'),
+    .describe(
+      'Glob patterns to match files; a leading "!" excludes (e.g., ["lib/**/*.dart", "!**/*.g.dart"])'
+    ),
   regex: z
     .array(z.string())
     .optional()
     .describe(
       'Regex patterns to search within files (e.g., ["class.*Widget", "extends\\\\s+StatefulWidget"])'
     ),
+  regex_flags: z
+    .string()
+    .regex(/^[gimsuy]*$/)
+    .default('m')
+    .describe('Regex flags such as "i" (ignore case), "m" (multiline) and "s" (dotall)'),
+  match_mode: z
+    .enum(['any', 'all'])
+    .default('any')
+    .describe('Whether a file must match "any" or "all" of the regex patterns'),
+  literal: z
+    .boolean()
+    .default(false)
+    .describe('Match the regex patterns as plain text instead of regular expressions'),
+  match_context_lines: z
+    .number()
+    .int()
+    .min(0)
+    .max(20)
+    .default(2)
+    .describe('Lines of context shown before and after each regex match'),
+  max_matches_per_file: z
+    .number()
+    .int()
+    .min(1)
+    .default(10)
+    .describe('Most regex matches listed per file'),
+  max_files: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe('Stop searching a directory once this many files are found'),
+  exclude_globs: z
+    .array(z.string())
+    .optional()
+    .describe('Glob patterns of files to leave out (e.g., ["**/*.g.dart", "**/fixtures/**"])'),
+  max_file_size: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Leave out files larger than this many bytes'),
+  skip_binary: z.boolean().default(true).describe('Leave out files whose content looks binary'),
+  modified_within: z
+    .string()
+    .regex(/^\d+\s*[mhdw]$/)
+    .optional()
+    .describe('Only match files modified within this duration (e.g., "30m", "12h", "7d", "2w")'),
   reference_depth: z
     .number()
     .default(-1)
     .describe('Maximum depth for tracking file references (-1 for unlimited, default: -1)'),
+  reference_direction: z
+    .enum(['incoming', 'outgoing', 'both'])
+    .default('incoming')
+    .describe(
+      'Which references to follow: "incoming" (files importing the matches), "outgoing" (files the matches import) or "both"'
+    ),
+  reference_roots: z
+    .array(z.string())
+    .optional()
+    .describe(
+      'Searchable directory names or absolute paths reference tracking may cross into (default: all)'
+    ),
+  visibility: z
+    .enum(['public', 'all'])
+    .default('all')
+    .describe('Which symbols to extract: "public" for the public API only, "all" for everything'),
+  include_graph: z
+    .boolean()
+    .default(false)
+    .describe('Render the import relationships between the found files as a diagram'),
+  graph_format: z
+    .enum(['mermaid', 'dot', 'both'])
+    .default('mermaid')
+    .describe('Diagram format when include_graph is set: "mermaid", "dot" or "both"'),
+  include_cycles: z
+    .boolean()
+    .default(false)
+    .describe('List the import cycles that involve the found files'),
+  respect_ignore_files: z
+    .boolean()
+    .default(true)
+    .describe('Skip files excluded by .gitignore, .ignore and .contextignore files'),
 });
 
 type FetchContextInput = z.infer<typeof FetchContextSchema>;
 
+// Get symbol schema
+const GetSymbolSchema = z.object({
+  symbol: z
+    .string()
+    .min(1)
+    .describe('Symbol path to look up (e.g., "AuthService.login" or "parseConfig")'),
+  directories: z
+    .array(z.string())
+    .optional()
+    .describe('Searchable directory names or absolute paths to restrict the search to'),
+  globs: z
+    .array(z.string())
+    .optional()
+    .describe('Glob patterns to match files (e.g., ["**/*.ts", "lib/**/*.dart"])'),
+  respect_ignore_files: z
+    .boolean()
+    .default(true)
+    .describe('Skip files excluded by .gitignore, .ignore and .contextignore files'),
+});
+
+type GetSymbolInput = z.infer<typeof GetSymbolSchema>;
+
+// Find usages schema
+const FindUsagesSchema = z.object({
+  symbol: z
+    .string()
+    .min(1)
+    .describe('Symbol whose usages to find (e.g., "AuthService.login" or "parseConfig")'),
+  directories: z
+    .array(z.string())
+    .optional()
+    .describe('Searchable directory names or absolute paths to restrict the search to'),
+  globs: z
+    .array(z.string())
+    .optional()
+    .describe('Glob patterns to match files (e.g., ["**/*.ts", "lib/**/*.dart"])'),
+  context_lines: z
+    .number()
+    .int()
+    .min(0)
+    .max(20)
+    .default(2)
+    .describe('Lines of context shown before and after each usage'),
+  respect_ignore_files: z
+    .boolean()
+    .default(true)
+    .describe('Skip files excluded by .gitignore, .ignore and .contextignore files'),
+});
+
+type FindUsagesInput = z.infer<typeof FindUsagesSchema>;
+
+// Find cycles schema
+const FindCyclesSchema = z.object({
+  directories: z
+    .array(z.string())
+    .optional()
+    .describe('Searchable directory names or absolute paths to restrict the search to'),
+  globs: z
+    .array(z.string())
+    .optional()
+    .describe('Only report cycles containing a file matching these patterns'),
+  respect_ignore_files: z
+    .boolean()
+    .default(true)
+    .describe('Skip files excluded by .gitignore, .ignore and .contextignore files'),
+});
+
+type FindCyclesInput = z.infer<typeof FindCyclesSchema>;
+
 // Update config schema
 const UpdateConfigSchema = z.object({
   operation: z
@@ -39,7 +194,9 @@ const UpdateConfigSchema = z.object({
   key: z
     .string()
     .optional()
-    .describe('Dot-separated path to the config value (e.g., "searchableDirectories" or "cacheDir")'),
+    .describe(
+      'Dot-separated path to the config value (e.g., "searchableDirectories" or "cacheDir")'
+    ),
   value: z.any().optional().describe('Value to set (for set operation)'),
   array_item: z
     .any()
@@ -99,16 +256,223 @@ export class LocalRepoScannerServer {
                 description:
                   'Optional regex patterns to search for specific content within files. Only files containing matches will be included. Examples: ["class.*Controller"] to find controller classes, ["TODO|FIXME"] to find TODOs. Supports full JavaScript regex syntax.',
               },
+              regex_flags: {
+                type: 'string',
+                description:
+                  'Flags applied to every regex pattern: "i" ignores case, "m" makes ^ and $ match at line breaks, "s" lets . match line breaks so patterns can span lines, "u" enables Unicode mode. "g" and "y" are ignored. Example: "is". Default: "m".',
+                default: 'm',
+              },
+              match_mode: {
+                type: 'string',
+                enum: ['any', 'all'],
+                description:
+                  '"any" keeps files matching at least one regex pattern, "all" keeps only files matching every pattern (anywhere in the file). Default: "any".',
+                default: 'any',
+              },
+              literal: {
+                type: 'boolean',
+                description:
+                  'Treats the regex patterns as plain text, so characters such as ".", "(" and "*" match themselves. Default: false.',
+                default: false,
+              },
+              match_context_lines: {
+                type: 'number',
+                description:
+                  'Number of lines shown before and after each regex match in the Regex Matches list of a matched file (0-20). Default: 2.',
+                default: 2,
+              },
+              max_matches_per_file: {
+                type: 'number',
+                description:
+                  'Most regex matches listed for each file; the total number of matching lines is still reported. Default: 10.',
+                default: 10,
+              },
+              max_files: {
+                type: 'number',
+                description:
+                  'Optional limit on the matched files per directory. A regex search stops reading files as soon as this many have matched, which keeps searches in very large trees short; the files kept are the first found, not the first in path order. Example: 50.',
+              },
+              exclude_globs: {
+                type: 'array',
+                items: { type: 'string' },
+                description:
+                  'Optional glob patterns of files to leave out, applied after globs and before the regex scan. Same as prefixing a glob with "!". Example: ["**/*.g.dart", "**/fixtures/**", "**/package-lock.json"].',
+              },
+              max_file_size: {
+                type: 'number',
+                description:
+                  'Size limit in bytes. Larger files are left out of the regex scan and the output. Default: 2097152 (2 MB). Example: 262144 for 256 KB.',
+                default: 2097152,
+              },
+              skip_binary: {
+                type: 'boolean',
+                description:
+                  'Leaves out files whose first bytes contain a NUL byte, such as images, fonts and archives. Default: true.',
+                default: true,
+              },
+              modified_within: {
+                type: 'string',
+                description:
+                  'Only matches files modified within this duration: a number followed by m (minutes), h (hours), d (days) or w (weeks). Example: "7d".',
+              },
               reference_depth: {
                 type: 'number',
                 description:
                   'Controls how many levels of file imports/references to trace. Use -1 for unlimited depth (traces all imports recursively), 0 to skip reference tracking, or any positive number to limit depth. Default: -1. Higher values provide more context but may include many files.',
                 default: -1,
               },
+              reference_direction: {
+                type: 'string',
+                enum: ['incoming', 'outgoing', 'both'],
+                description:
+                  'Controls which way references are traced. "incoming" lists files that import the matched files (Referencing Files), "outgoing" follows the matched files\' own imports (Imported Files), "both" does both. Both directions honor reference_depth. Default: "incoming".',
+                default: 'incoming',
+              },
+              reference_roots: {
+                type: 'array',
+                items: { type: 'string' },
+                description:
+                  "Searchable directories whose files reference tracking may follow, so that an app in one configured directory importing a shared package from another is found as a referencing file. Entries are matched against directory names (case-insensitive, partial) or are absolute paths. The matched directory's own root is always included. Referencing and imported files are labelled with the root they belong to. Default: all searchable directories.",
+              },
+              visibility: {
+                type: 'string',
+                enum: ['public', 'all'],
+                description:
+                  'Controls which extracted symbols are shown. Use "public" to keep only the public API (exported TS/JS declarations, non-underscore Dart and Python names, capitalized Go names, `pub` Rust items) and drop private helpers and members. Default: "all".',
+                default: 'all',
+              },
+              include_graph: {
+                type: 'boolean',
+                description:
+                  'Adds a Dependency Graph section drawing the import edges between the matched, referencing and imported files. Nodes are grouped by directory and labelled with their import depth from the matched files. Default: false.',
+                default: false,
+              },
+              graph_format: {
+                type: 'string',
+                enum: ['mermaid', 'dot', 'both'],
+                description:
+                  'Format of the dependency diagram when include_graph is true: a Mermaid flowchart, Graphviz DOT, or both. Default: "mermaid".',
+                default: 'mermaid',
+              },
+              include_cycles: {
+                type: 'boolean',
+                description:
+                  'Adds an Import Cycles section listing each group of files that import each other in a circle and passes through the matched, referencing or imported files, with the imports forming it. Default: false.',
+                default: false,
+              },
+              respect_ignore_files: {
+                type: 'boolean',
+                description:
+                  'Skips files and directories excluded by .gitignore, .ignore and .contextignore files, including nested ones and those above the directory up to the git repository root. Set to false to search ignored files such as build output or generated code. Default: true.',
+                default: true,
+              },
             },
             required: ['search_terms'],
           },
         },
+        {
+          name: 'get-symbol',
+          description:
+            'Returns the full source of a named class, method or function, including the doc comments above it. Use it after fetch-context to read the implementation behind a signature. When several definitions match, lists the candidates with their locations instead.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              symbol: {
+                type: 'string',
+                description:
+                  'Symbol path to look up: "Class.method" for a member, or a bare class or function name. A path also matches the end of a longer qualified name, so "login" finds "AuthService.login". Example: "AuthService.login".',
+              },
+              directories: {
+                type: 'array',
+                items: { type: 'string' },
+                description:
+                  'Optional filters restricting the search to some searchableDirectories. Entries are matched against directory names (case-insensitive, partial), or can be absolute paths inside a searchable directory. If not provided, all searchable directories are searched.',
+              },
+              globs: {
+                type: 'array',
+                items: { type: 'string' },
+                description:
+                  'Optional glob patterns to restrict which files are searched. Example: ["**/*.ts"]. If not provided, all files are considered.',
+              },
+              respect_ignore_files: {
+                type: 'boolean',
+                description:
+                  'Skips files and directories excluded by .gitignore, .ignore and .contextignore files, including nested ones and those above the directory up to the git repository root. Set to false to search ignored files such as build output or generated code. Default: true.',
+                default: true,
+              },
+            },
+            required: ['symbol'],
+          },
+        },
+        {
+          name: 'find-usages',
+          description:
+            'Finds where a class, method, function or variable is used across all searchable directories. Returns each call site or reference with its line and surrounding lines, grouped by file. Matches inside comments and string literals, and the declarations themselves, are skipped for languages with a built-in extractor. Only source code files are searched.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              symbol: {
+                type: 'string',
+                description:
+                  'Symbol to search for, as returned by fetch-context or get-symbol. For a path such as "AuthService.login" the last segment ("login") is matched as a whole identifier.',
+              },
+              directories: {
+                type: 'array',
+                items: { type: 'string' },
+                description:
+                  'Optional filters restricting the search to some searchableDirectories. Entries are matched against directory names (case-insensitive, partial), or can be absolute paths inside a searchable directory. If not provided, all searchable directories are searched.',
+              },
+              globs: {
+                type: 'array',
+                items: { type: 'string' },
+                description:
+                  'Optional glob patterns to restrict which files are searched. Example: ["**/*.ts"]. If not provided, all files are considered.',
+              },
+              context_lines: {
+                type: 'number',
+                description:
+                  'Number of lines shown before and after each usage (0-20). Usages whose context overlaps share one snippet. Default: 2.',
+                default: 2,
+              },
+              respect_ignore_files: {
+                type: 'boolean',
+                description:
+                  'Skips files and directories excluded by .gitignore, .ignore and .contextignore files, including nested ones and those above the directory up to the git repository root. Set to false to search ignored files such as build output or generated code. Default: true.',
+                default: true,
+              },
+            },
+            required: ['symbol'],
+          },
+        },
+        {
+          name: 'find-cycles',
+          description:
+            'Finds circular imports in the searchable directories. Reports every strongly connected group of files, meaning files that import each other directly or through the rest of the group, together with the concrete imports that form the cycle. Cycles spanning several searchable directories are included.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              directories: {
+                type: 'array',
+                items: { type: 'string' },
+                description:
+                  'Optional filters restricting the search to some searchableDirectories. Entries are matched against directory names (case-insensitive, partial), or can be absolute paths inside a searchable directory. If not provided, all searchable directories are searched.',
+              },
+              globs: {
+                type: 'array',
+                items: { type: 'string' },
+                description:
+                  'Optional glob patterns; only cycles containing at least one matching file are reported. Example: ["lib/features/**"].',
+              },
+              respect_ignore_files: {
+                type: 'boolean',
+                description:
+                  'Skips files and directories excluded by .gitignore, .ignore and .contextignore files, including nested ones and those above the directory up to the git repository root. Set to false to search ignored files such as build output or generated code. Default: true.',
+                default: true,
+              },
+            },
+            required: [],
+          },
+        },
         {
           name: 'update-config',
           description:
@@ -170,6 +534,45 @@ export class LocalRepoScannerServer {
           };
         }
 
+        case 'get-symbol': {
+          const input = GetSymbolSchema.parse(args);
+          const source = await this.getSymbol(input);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: source,
+              },
+            ],
+          };
+        }
+
+        case 'find-usages': {
+          const input = FindUsagesSchema.parse(args);
+          const usages = await this.findUsages(input);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: usages,
+              },
+            ],
+          };
+        }
+
+        case 'find-cycles': {
+          const input = FindCyclesSchema.parse(args);
+          const report = await this.findCycles(input);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: report,
+              },
+            ],
+          };
+        }
+
         case 'update-config': {
           const input = UpdateConfigSchema.parse(args);
           const result = await updateConfig(input);
@@ -219,6 +622,45 @@ export class LocalRepoScannerServer {
     }
   }
 
+  private async getSymbol(input: GetSymbolInput): Promise<string> {
+    try {
+      return await getSymbol(input, this.config);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return `# Error looking up symbol
+
+**Symbol:** ${input.symbol}
+
+**Error:** ${errorMessage}`;
+    }
+  }
+
+  private async findUsages(input: FindUsagesInput): Promise<string> {
+    try {
+      return await findUsages(input, this.config);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return `# Error finding usages
+
+**Symbol:** ${input.symbol}
+
+**Error:** ${errorMessage}`;
+    }
+  }
+
+  private async findCycles(input: FindCyclesInput): Promise<string> {
+    try {
+      return await findCycles(input, this.config);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return `# Error finding import cycles
+
+**Directories:** ${input.directories?.join(', ') ?? 'All'}
+
+**Error:** ${errorMessage}`;
+    }
+  }
+
   private getToolsList(): string {
     return `# Available Tools for Local Context MCP
 
@@ -229,13 +671,51 @@ export class LocalRepoScannerServer {
 - **search_terms** (required, array): Terms to search for across all configured directories
   - Example: ["auth", "user", "login"]
   - Matches against file/directory paths (case-insensitive)
-- **globs** (optional, array): File patterns to match
+- **globs** (optional, array): File patterns to match; patterns starting with "!" exclude files
   - Example: ["**/*.ts", "!**/*.test.ts"]
 - **regex** (optional, array): Content patterns to search for
   - Example: ["class.*Controller", "TODO|FIXME"]
+  - Each match is listed under its file with its line number and context
+- **regex_flags** (optional, string): Flags for the regex patterns, e.g. "i", "s"
+  - Default: "m"
+- **match_mode** (optional, string): "any" or "all" of the regex patterns must match
+  - Default: "any"
+- **literal** (optional, boolean): Match the regex patterns as plain text
+  - Default: false
+- **match_context_lines** (optional, number): Lines shown around each regex match
+  - Default: 2
+- **max_matches_per_file** (optional, number): Most regex matches listed per file
+  - Default: 10
+- **max_files** (optional, number): Stop searching a directory after this many matched files
+  - Example: 50
+- **exclude_globs** (optional, array): File patterns to leave out
+  - Example: ["**/*.g.dart", "**/fixtures/**"]
+- **max_file_size** (optional, number): Leave out files larger than this many bytes
+  - Default: 2097152 (2 MB)
+- **skip_binary** (optional, boolean): Leave out binary files
+  - Default: true
+- **modified_within** (optional, string): Only match recently modified files
+  - Example: "7d", "12h"
 - **reference_depth** (optional, number): How deep to trace file imports
   - Default: -1 (unlimited)
   - Use 0 to skip reference tracking
+- **reference_direction** (optional, string): "incoming", "outgoing" or "both"
+  - Default: "incoming" (files that import the matched files)
+  - Use "outgoing" to follow what the matched files import
+- **reference_roots** (optional, array): Searchable directories reference tracking may cross into
+  - Default: all searchable directories
+  - Example: ["mobile_app", "shared_packages"]
+- **visibility** (optional, string): "public" or "all"
+  - Default: "all"
+  - Use "public" to leave out private helpers and members
+- **include_graph** (optional, boolean): Add a diagram of the imports between the found files
+  - Default: false
+- **graph_format** (optional, string): "mermaid", "dot" or "both"
+  - Default: "mermaid"
+- **include_cycles** (optional, boolean): List the import cycles involving the found files
+  - Default: false
+- **respect_ignore_files** (optional, boolean): Skip files excluded by .gitignore, .ignore and .contextignore
+  - Default: true
 
 **Example Usage:**
 \`\`\`json
@@ -247,12 +727,77 @@ export class LocalRepoScannerServer {
 }
 \`\`\`
 
-## 2. update-config
+## 2. get-symbol
+**Purpose:** Returns the full source of a named class, method or function, including its doc comments. Lists the candidates when the name is ambiguous.
+
+**Parameters:**
+- **symbol** (required, string): Symbol path to look up
+  - Example: "AuthService.login", "parseConfig"
+  - A bare member name matches any class that declares it
+- **directories** (optional, array): Searchable directory names or absolute paths to search
+  - Example: ["backend"]
+- **globs** (optional, array): File patterns to match
+  - Example: ["**/*.ts"]
+- **respect_ignore_files** (optional, boolean): Skip files excluded by .gitignore, .ignore and .contextignore
+  - Default: true
+
+**Example Usage:**
+\`\`\`json
+{
+  "symbol": "AuthService.login",
+  "globs": ["src/**/*.ts"]
+}
+\`\`\`
+
+## 3. find-usages
+**Purpose:** Finds the usages of a class, method, function or variable across all searchable directories, grouped by file with surrounding lines. Only source files are searched; comments, strings and declarations are skipped.
+
+**Parameters:**
+- **symbol** (required, string): Symbol to search for; the last segment of a path is matched
+  - Example: "AuthService.login", "parseConfig"
+- **directories** (optional, array): Searchable directory names or absolute paths to search
+  - Example: ["backend"]
+- **globs** (optional, array): File patterns to match
+  - Example: ["**/*.ts"]
+- **context_lines** (optional, number): Lines shown before and after each usage
+  - Default: 2
+- **respect_ignore_files** (optional, boolean): Skip files excluded by .gitignore, .ignore and .contextignore
+  - Default: true
+
+**Example Usage:**
+\`\`\`json
+{
+  "symbol": "AuthService.login",
+  "context_lines": 3
+}
+\`\`\`
+
+## 4. find-cycles
+**Purpose:** Finds circular imports, including those spanning several searchable directories, and lists each cycle's files and the imports that form it.
+
+**Parameters:**
+- **directories** (optional, array): Searchable directory names or absolute paths to search
+  - Example: ["mobile_app"]
+- **globs** (optional, array): Only report cycles containing a matching file
+  - Example: ["lib/features/**"]
+- **respect_ignore_files** (optional, boolean): Skip files excluded by .gitignore, .ignore and .contextignore
+  - Default: true
+
+**Example Usage:**
+\`\`\`json
+{
+  "directories": ["mobile_app"],
+  "globs": ["lib/features/**"]
+}
+\`\`\`
+
+## 5. update-config
 **Purpose:** Manages the config.json file with CRUD operations.
 
 **Available Configuration Options:**
 - **searchableDirectories** (string[], required): Full absolute paths to directories that can be searched
 - **cacheDir** (string, optional): Cache directory (default: ./mcp-cache)
+- **extractors** (object[], optional): Extra language extractors, either \`{ "module": "/path/to/extractor.js" }\` or \`{ "language": "typescript", "extensions": [".es6"] }\` (applied on restart)
 
 **Parameters:**
 - **operation** (required, string): One of: get, set, delete, add, remove
@@ -276,7 +821,7 @@ export class LocalRepoScannerServer {
 { "operation": "add", "key": "customDirs", "array_item": "new-dir" }
 \`\`\`
 
-## 3. list-tools
+## 6. list-tools
 **Purpose:** Shows this help text with all available tools and their usage.
 
 **Parameters:** None
@@ -289,6 +834,7 @@ To view or modify configuration, use the update-config tool with \`{"operation":
   }
 
   async run(): Promise<void> {
+    await loadConfiguredExtractors(this.config.extractors);
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
     console.error('Local Context MCP server running on stdio');
@@ -1,11 +1,32 @@
 import * as path from 'path';
 import { promises as fs } from 'fs';
 import type { FetchContextRequest, ExtractedCode } from '../types';
-import { findMatchingFiles } from '../utils/patternMatcher.js';
-import { extractCodeFromFile } from '../utils/codeExtractor.js';
-import { findReferencingFiles } from '../utils/referenceTracker.js';
+import {
+  DEFAULT_MAX_FILE_SIZE,
+  findMatchingFiles,
+  parseDuration,
+  type FileFilterOptions,
+  type RegexOptions,
+} from '../utils/patternMatcher.js';
+import { extractCodeFromFile, filterPublicApi } from '../utils/codeExtractor.js';
+import {
+  buildDependencyGraph,
+  findImportCycles,
+  findImportedFiles,
+  findReferenceChain,
+  findReferencingFiles,
+  type FileReference,
+} from '../utils/referenceTracker.js';
+import {
+  findGraphRoot,
+  loadImportGraph,
+  mergeImportGraphs,
+  type ImportGraph,
+} from '../utils/importGraph.js';
 import { buildMarkdownExplanation } from '../utils/markdownBuilder.js';
 import { getCachedResult, saveToCache } from '../utils/cacheManager.js';
+import type { WalkOptions } from '../utils/fileWalker.js';
+import { resolveSearchDirectories } from '../utils/searchDirectories.js';
 
 export interface FetchContextConfig {
   searchableDirectories: string[];
@@ -21,6 +42,7 @@ export async function fetchContext(
 ): Promise<string> {
   const results: string[] = [];
   const matchedDirectories: string[] = [];
+  const existingDirectories: string[] = [];
 
   // Find directories that match any of the search terms
   for (const dirPath of config.searchableDirectories) {
@@ -34,11 +56,14 @@ export async function fetchContext(
       // Skip non-existent directories
       continue;
     }
+    existingDirectories.push(dirPath);
 
     // Check if the directory name itself matches
     const dirName = path.basename(dirPath);
     const dirLower = dirName.toLowerCase();
-    const directoryMatches = request.search_terms.some((term) => dirLower.includes(term.toLowerCase()));
+    const directoryMatches = request.search_terms.some((term) =>
+      dirLower.includes(term.toLowerCase())
+    );
 
     if (directoryMatches) {
       matchedDirectories.push(dirPath);
@@ -49,8 +74,10 @@ export async function fetchContext(
         for (const entry of entries) {
           if (entry.isDirectory() && !entry.name.startsWith('.')) {
             const subDirLower = entry.name.toLowerCase();
-            const subDirMatches = request.search_terms.some((term) => subDirLower.includes(term.toLowerCase()));
-            
+            const subDirMatches = request.search_terms.some((term) =>
+              subDirLower.includes(term.toLowerCase())
+            );
+
             if (subDirMatches) {
               matchedDirectories.push(path.join(dirPath, entry.name));
             }
@@ -72,6 +99,63 @@ export async function fetchContext(
     );
   }
 
+  // Roots reference tracking may cross into: the chosen searchable
+  // directories, or all of them
+  const referenceRoots =
+    request.reference_roots !== undefined && request.reference_roots.length > 0
+      ? resolveSearchDirectories(request.reference_roots, existingDirectories).map((dir) =>
+          findGraphRoot(dir, config.searchableDirectories)
+        )
+      : existingDirectories;
+
+  const walkOptions: WalkOptions = { respectIgnoreFiles: request.respect_ignore_files };
+  const fileFilters: FileFilterOptions = {
+    ...walkOptions,
+    excludeGlobs: request.exclude_globs,
+    maxFileSize: request.max_file_size,
+    skipBinary: request.skip_binary,
+    modifiedWithin:
+      request.modified_within !== undefined ? parseDuration(request.modified_within) : undefined,
+    maxFiles: request.max_files,
+  };
+  const regexOptions: RegexOptions = {
+    flags: request.regex_flags,
+    matchMode: request.match_mode,
+    literal: request.literal,
+    // Show where the content patterns matched in each matched file
+    listMatches: {
+      contextLines: request.match_context_lines ?? 2,
+      maxMatches: request.max_matches_per_file ?? 10,
+    },
+  };
+
+  // Import graphs by root directory, loaded on first use
+  const importGraphs = new Map<string, ImportGraph>();
+  const loadRootGraph = async (root: string): Promise<ImportGraph> => {
+    let graph = importGraphs.get(root);
+    if (graph === undefined) {
+      graph = await loadImportGraph(root, config.cacheDir, walkOptions);
+      importGraphs.set(root, graph);
+    }
+    return graph;
+  };
+
+  // The graph of a target's own root combined with the other reference roots
+  const referenceGraphs = new Map<string, ImportGraph>();
+  const getImportGraph = async (targetPath: string): Promise<ImportGraph> => {
+    const ownRoot = findGraphRoot(targetPath, config.searchableDirectories);
+    let graph = referenceGraphs.get(ownRoot);
+    if (graph === undefined) {
+      const graphs: ImportGraph[] = [];
+      for (const root of [ownRoot, ...referenceRoots.filter((r) => r !== ownRoot)]) {
+        graphs.push(await loadRootGraph(root));
+      }
+      graph = graphs.length === 1 ? graphs[0]! : mergeImportGraphs(graphs);
+      referenceGraphs.set(ownRoot, graph);
+    }
+    return graph;
+  };
+
   // Process each matched directory
   for (const targetPath of matchedDirectories) {
     const targetDir = path.basename(targetPath);
@@ -79,28 +163,40 @@ export async function fetchContext(
     // Find matching files
     // If no globs or regex specified, include all files in the directory
     const globs = request.globs?.length ? request.globs : ['**/*'];
-    const matchedFilePaths = await findMatchingFiles(targetPath, globs, request.regex);
+    const {
+      files: matchedFilePaths,
+      regexMatches,
+      stoppedEarly,
+    } = await findMatchingFiles(targetPath, globs, request.regex, fileFilters, regexOptions);
 
     if (
       matchedFilePaths.length === 0 &&
-      ((request.globs?.length ?? 0) > 0 || (request.regex?.length ?? 0) > 0)
+      ((request.globs?.length ?? 0) > 0 ||
+        (request.regex?.length ?? 0) > 0 ||
+        (request.exclude_globs?.length ?? 0) > 0 ||
+        request.max_file_size !== undefined ||
+        request.modified_within !== undefined)
     ) {
       results.push(
         `# Directory Analysis: ${targetDir}\n\nNo files found matching the specified patterns.\n\n` +
           `**Glob patterns:** ${request.globs?.join(', ') ?? 'None'}\n` +
-          `**Regex patterns:** ${request.regex?.join(', ') ?? 'None'}\n`
+          `**Regex patterns:** ${request.regex?.join(', ') ?? 'None'}\n` +
+          `**Exclude patterns:** ${request.exclude_globs?.join(', ') ?? 'None'}\n` +
+          `**Max file size:** ${request.max_file_size ?? DEFAULT_MAX_FILE_SIZE} bytes\n` +
+          `**Modified within:** ${request.modified_within ?? 'Any time'}\n`
       );
       continue;
     }
 
+    const referenceDepth = request.reference_depth ?? -1;
+    const direction = request.reference_direction ?? 'incoming';
+
     // Find referencing files if needed
+    let references: Map<string, FileReference> | undefined;
     let referencingFilePaths: string[] = [];
-    if (matchedFilePaths.length > 0 && (request.reference_depth ?? -1) !== 0) {
-      const references = await findReferencingFiles(
-        matchedFilePaths,
-        targetPath,
-        request.reference_depth ?? -1
-      );
+    if (matchedFilePaths.length > 0 && referenceDepth !== 0 && direction !== 'outgoing') {
+      const graph = await getImportGraph(targetPath);
+      references = findReferencingFiles(graph, matchedFilePaths, referenceDepth);
 
       // Extract just the file paths, excluding the matched files themselves
       referencingFilePaths = Array.from(references.keys()).filter(
@@ -108,8 +204,18 @@ export async function fetchContext(
       );
     }
 
+    // Find the files the matched files import if needed
+    let imports: Map<string, FileReference> | undefined;
+    let importedFilePaths: string[] = [];
+    if (matchedFilePaths.length > 0 && referenceDepth !== 0 && direction !== 'incoming') {
+      const graph = await getImportGraph(targetPath);
+      imports = findImportedFiles(graph, matchedFilePaths, referenceDepth);
+
+      importedFilePaths = Array.from(imports.keys()).filter((f) => !matchedFilePaths.includes(f));
+    }
+
     // All files we need to analyze
-    const allFiles = [...matchedFilePaths, ...referencingFilePaths];
+    const allFiles = [...matchedFilePaths, ...referencingFilePaths, ...importedFilePaths];
 
     // Check cache (using single directory for compatibility)
     const singleDirRequest = { ...request, target_directory: targetDir };
@@ -122,17 +228,52 @@ export async function fetchContext(
     // Extract code from all files
     const matchedFileData = new Map<string, ExtractedCode>();
     const referencingFileData = new Map<string, ExtractedCode>();
+    const importedFileData = new Map<string, ExtractedCode>();
+
+    const extract = async (filePath: string): Promise<ExtractedCode> => {
+      const extracted = await extractCodeFromFile(filePath);
+      return request.visibility === 'public' ? filterPublicApi(extracted) : extracted;
+    };
 
     // Process matched files
     for (const filePath of matchedFilePaths) {
-      const extracted = await extractCodeFromFile(filePath);
-      matchedFileData.set(filePath, extracted);
+      matchedFileData.set(filePath, await extract(filePath));
     }
 
     // Process referencing files
     for (const filePath of referencingFilePaths) {
-      const extracted = await extractCodeFromFile(filePath);
-      referencingFileData.set(filePath, extracted);
+      referencingFileData.set(filePath, await extract(filePath));
+    }
+
+    // Process imported files
+    for (const filePath of importedFilePaths) {
+      importedFileData.set(filePath, await extract(filePath));
+    }
+
+    // Find the import cycles that pass through any of the analyzed files
+    const importCycles =
+      request.include_cycles === true
+        ? findImportCycles(await getImportGraph(targetPath)).filter((cycle) =>
+            cycle.files.some((file) => allFiles.includes(file))
+          )
+        : undefined;
+
+    // Explain why each referencing file was included
+    const referenceChains = new Map<string, string[]>();
+    if (references !== undefined) {
+      for (const filePath of referencingFilePaths) {
+        referenceChains.set(filePath, findReferenceChain(references, filePath));
+      }
+    }
+
+    // Label the referencing and imported files with the searchable directory
+    // they belong to, as they may come from another root
+    const fileRoots = new Map<string, string>();
+    for (const filePath of [...referencingFilePaths, ...importedFilePaths]) {
+      const root = findGraphRoot(filePath, config.searchableDirectories);
+      if (root !== filePath) {
+        fileRoots.set(filePath, root);
+      }
     }
 
     // Find README
@@ -156,6 +297,17 @@ export async function fetchContext(
       readmePath,
       matchedFiles: matchedFileData,
       referencingFiles: referencingFileData.size > 0 ? referencingFileData : undefined,
+      importedFiles: importedFileData.size > 0 ? importedFileData : undefined,
+      dependencyGraph:
+        request.include_graph === true
+          ? buildDependencyGraph(matchedFilePaths, references, imports)
+          : undefined,
+      graphFormat: request.graph_format,
+      importCycles,
+      fileRoots,
+      referenceChains,
+      regexMatches,
+      stoppedAtMaxFiles: stoppedEarly,
     });
 
     // Save to cache (using single directory for compatibility)
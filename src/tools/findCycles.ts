@@ -0,0 +1,90 @@
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import type { FindCyclesRequest, ImportCycle } from '../types/index.js';
+import { findFilesByGlob } from '../utils/patternMatcher.js';
+import { loadImportGraph, mergeImportGraphs, type ImportGraph } from '../utils/importGraph.js';
+import { findImportCycles } from '../utils/referenceTracker.js';
+import { formatImportCycles } from '../utils/markdownBuilder.js';
+import type { WalkOptions } from '../utils/fileWalker.js';
+import { resolveSearchDirectories } from '../utils/searchDirectories.js';
+
+export interface FindCyclesConfig {
+  searchableDirectories: string[];
+  cacheDir: string;
+}
+
+/**
+ * Checks whether a path is an existing directory
+ */
+async function isDirectory(dirPath: string): Promise<boolean> {
+  try {
+    return (await fs.stat(dirPath)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Reports the import cycles in the searchable directories. Cycles are found
+ * in the graphs of all searchable directories combined, so a cycle between
+ * files under different directories is reported too.
+ */
+export async function findCycles(
+  request: FindCyclesRequest,
+  config: FindCyclesConfig
+): Promise<string> {
+  const directories = resolveSearchDirectories(request.directories, config.searchableDirectories);
+  const walkOptions: WalkOptions = { respectIgnoreFiles: request.respect_ignore_files };
+  const sections: string[] = ['# Import Cycles', ''];
+  let allCycles: ImportCycle[] | undefined;
+
+  for (const dirPath of directories) {
+    if (!(await isDirectory(dirPath))) {
+      // Skip non-existent directories
+      continue;
+    }
+
+    // Built on first use from every searchable directory's graph
+    if (allCycles === undefined) {
+      const graphs: ImportGraph[] = [];
+      for (const root of config.searchableDirectories) {
+        if (await isDirectory(root)) {
+          graphs.push(await loadImportGraph(root, config.cacheDir, walkOptions));
+        }
+      }
+      allCycles = findImportCycles(mergeImportGraphs(graphs));
+    }
+
+    // Keep the cycles passing through the directory, or through the files matching the globs
+    let cycles = allCycles.filter((cycle) =>
+      cycle.files.some((file) => file === dirPath || file.startsWith(dirPath + path.sep))
+    );
+    if (request.globs !== undefined && request.globs.length > 0) {
+      const matching = new Set(await findFilesByGlob(dirPath, request.globs, walkOptions));
+      cycles = cycles.filter((cycle) => cycle.files.some((file) => matching.has(file)));
+    }
+
+    sections.push(`## ${path.basename(dirPath)}`);
+    sections.push('');
+    sections.push(`**Path:** \`${dirPath}\``);
+    sections.push('');
+    if (cycles.length > 0) {
+      sections.push(`Found ${cycles.length} import cycles:`);
+      sections.push('');
+      sections.push(formatImportCycles(cycles));
+    } else {
+      sections.push('*No import cycles found*');
+    }
+    sections.push('');
+  }
+
+  if (sections.length === 2) {
+    return (
+      `# No directories to search for import cycles\n\n` +
+      `**Directories:** ${request.directories?.join(', ') ?? 'All'}\n` +
+      `**Configured directories:** ${config.searchableDirectories.map((d) => path.basename(d)).join(', ')}\n`
+    );
+  }
+
+  return sections.join('\n').trimEnd() + '\n';
+}
@@ -0,0 +1,200 @@
+import { promises as fs } from 'fs';
+import type { CodeSymbol, ExtractedCode, FindUsagesRequest } from '../types/index.js';
+import { applyFileFilters, findFilesByGlob } from '../utils/patternMatcher.js';
+import type { WalkOptions } from '../utils/fileWalker.js';
+import {
+  extractCodeFromFile,
+  getFenceTag,
+  isCodeFile,
+  maskCode,
+  stripAccessorPrefix,
+} from '../utils/codeExtractor.js';
+import { resolveSearchDirectories } from '../utils/searchDirectories.js';
+
+export interface FindUsagesConfig {
+  searchableDirectories: string[];
+}
+
+interface FileUsages {
+  filePath: string;
+  language: string;
+  lines: string[];
+  /** 1-based lines containing a usage */
+  usageLines: number[];
+}
+
+const DEFAULT_CONTEXT_LINES = 2;
+
+/**
+ * Builds a pattern matching the name as a whole identifier
+ */
+function identifierPattern(name: string): RegExp {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(?<![\\w$])${escaped}(?![\\w$])`);
+}
+
+/**
+ * Returns the lines on which the extractor found a declaration of the name,
+ * so that definitions are not reported as usages
+ */
+function declarationLines(extracted: ExtractedCode, name: string): Set<number> {
+  const lines = new Set<number>();
+  const add = (symbol: CodeSymbol): void => {
+    if (stripAccessorPrefix(symbol.name) === name && symbol.location !== undefined) {
+      lines.add(symbol.location.startLine);
+    }
+  };
+
+  for (const cls of extracted.classes) {
+    add(cls);
+    [...cls.methods, ...cls.fields, ...cls.enumValues].forEach(add);
+  }
+  extracted.functions.forEach(add);
+  extracted.variables.forEach(add);
+
+  return lines;
+}
+
+/**
+ * Finds the lines of a file that use the name outside comments, strings and
+ * its own declarations
+ */
+async function findFileUsages(filePath: string, name: string): Promise<FileUsages | undefined> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf-8');
+  } catch {
+    return undefined;
+  }
+  if (!content.includes(name)) {
+    return undefined;
+  }
+
+  const masked = maskCode(filePath, content).split('\n');
+  const pattern = identifierPattern(name);
+  const candidates = masked.flatMap((line, index) => (pattern.test(line) ? [index + 1] : []));
+  if (candidates.length === 0) {
+    return undefined;
+  }
+
+  const extracted = await extractCodeFromFile(filePath);
+  const declarations = declarationLines(extracted, name);
+  const usageLines = candidates.filter((line) => !declarations.has(line));
+  if (usageLines.length === 0) {
+    return undefined;
+  }
+
+  return { filePath, language: extracted.language, lines: content.split('\n'), usageLines };
+}
+
+/**
+ * Formats the usages of one file as snippets, merging usages whose context
+ * overlaps. Usage lines are marked with `>`.
+ */
+function formatFileUsages(usages: FileUsages, contextLines: number): string[] {
+  const { filePath, language, lines, usageLines } = usages;
+  const output: string[] = [];
+
+  output.push(`## 📄 \`${filePath}\``);
+  output.push('');
+  output.push(
+    usageLines.length === 1
+      ? `**1 usage** on line ${usageLines[0]}`
+      : `**${usageLines.length} usages** on lines ${usageLines.join(', ')}`
+  );
+  output.push('');
+
+  // Ignore the empty line after a trailing line break
+  const lastLine = lines[lines.length - 1] === '' ? lines.length - 1 : lines.length;
+  const ranges: Array<{ start: number; end: number }> = [];
+  for (const line of usageLines) {
+    const start = Math.max(1, line - contextLines);
+    const end = Math.min(lastLine, line + contextLines);
+    const previous = ranges[ranges.length - 1];
+    if (previous !== undefined && start <= previous.end + 1) {
+      previous.end = end;
+    } else {
+      ranges.push({ start, end });
+    }
+  }
+
+  const width = String(ranges[ranges.length - 1]?.end ?? 0).length;
+  const marked = new Set(usageLines);
+  for (const { start, end } of ranges) {
+    output.push('```' + getFenceTag(language));
+    for (let line = start; line <= end; line++) {
+      const marker = marked.has(line) ? '>' : ' ';
+      output.push(`${marker} ${String(line).padStart(width)} | ${lines[line - 1]!.trimEnd()}`);
+    }
+    output.push('```');
+    output.push('');
+  }
+
+  return output;
+}
+
+/**
+ * Finds where a symbol is used across the source files of the searchable
+ * directories and returns the usages grouped by file, with surrounding lines
+ * for context
+ */
+export async function findUsages(
+  request: FindUsagesRequest,
+  config: FindUsagesConfig
+): Promise<string> {
+  const symbolPath = request.symbol.trim();
+  const name = stripAccessorPrefix(symbolPath.split('.').pop()!);
+  if (name === '') {
+    throw new Error(`Symbol "${symbolPath}" does not end in a name`);
+  }
+  const directories = resolveSearchDirectories(request.directories, config.searchableDirectories);
+  const globs = request.globs !== undefined && request.globs.length > 0 ? request.globs : ['**/*'];
+  const walkOptions: WalkOptions = { respectIgnoreFiles: request.respect_ignore_files };
+  const contextLines = Math.max(0, request.context_lines ?? DEFAULT_CONTEXT_LINES);
+  const results: FileUsages[] = [];
+
+  for (const dirPath of directories) {
+    try {
+      const stats = await fs.stat(dirPath);
+      if (!stats.isDirectory()) {
+        continue;
+      }
+    } catch {
+      // Skip non-existent directories
+      continue;
+    }
+
+    // Only source code is searched; prose, data and binary files are skipped
+    const files = await applyFileFilters(
+      (await findFilesByGlob(dirPath, globs, walkOptions)).filter(isCodeFile),
+      { skipBinary: true }
+    );
+    for (const filePath of files) {
+      const usages = await findFileUsages(filePath, name);
+      if (usages !== undefined) {
+        results.push(usages);
+      }
+    }
+  }
+
+  if (results.length === 0) {
+    return (
+      `# No usages found: \`${symbolPath}\`\n\n` +
+      `**Searched directories:** ${directories.length > 0 ? directories.join(', ') : 'None'}\n` +
+      `**Glob patterns:** ${globs.join(', ')}\n`
+    );
+  }
+
+  const total = results.reduce((sum, usages) => sum + usages.usageLines.length, 0);
+  const lines: string[] = [];
+
+  lines.push(`# Usages: \`${symbolPath}\``);
+  lines.push('');
+  lines.push(`Found ${total} usages of \`${name}\` in ${results.length} files:`);
+  lines.push('');
+  for (const usages of results) {
+    lines.push(...formatFileUsages(usages, contextLines));
+  }
+
+  return lines.join('\n').trimEnd() + '\n';
+}
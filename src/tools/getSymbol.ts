@@ -0,0 +1,240 @@
+import { promises as fs } from 'fs';
+import type {
+  CodeSymbol,
+  ExtractedCode,
+  GetSymbolRequest,
+  SourceLocation,
+} from '../types/index.js';
+import { applyFileFilters, findFilesByGlob } from '../utils/patternMatcher.js';
+import type { WalkOptions } from '../utils/fileWalker.js';
+import {
+  extractCodeFromFile,
+  getFenceTag,
+  isCodeFile,
+  stripAccessorPrefix,
+} from '../utils/codeExtractor.js';
+import { resolveSearchDirectories } from '../utils/searchDirectories.js';
+
+export interface GetSymbolConfig {
+  searchableDirectories: string[];
+}
+
+interface SymbolCandidate {
+  qualifiedName: string;
+  kind: string;
+  symbol: CodeSymbol;
+  extracted: ExtractedCode;
+}
+
+/**
+ * Checks whether a qualified symbol name matches the requested symbol path.
+ * A path also matches the tail of a longer name, so `login` finds
+ * `AuthService.login`.
+ */
+function matchesSymbolPath(qualifiedName: string, symbolPath: string): boolean {
+  return qualifiedName === symbolPath || qualifiedName.endsWith(`.${symbolPath}`);
+}
+
+/**
+ * Collects the symbols in an extracted file that match the symbol path
+ */
+function findCandidates(extracted: ExtractedCode, symbolPath: string): SymbolCandidate[] {
+  const candidates: SymbolCandidate[] = [];
+
+  for (const cls of extracted.classes) {
+    if (matchesSymbolPath(cls.name, symbolPath)) {
+      candidates.push({
+        qualifiedName: cls.name,
+        kind: cls.kind ?? 'class',
+        symbol: cls,
+        extracted,
+      });
+    }
+
+    const members = [
+      ...cls.methods.map((symbol) => ({ symbol, kind: 'method' })),
+      ...cls.fields.map((symbol) => ({ symbol, kind: 'field' })),
+    ];
+    for (const { symbol, kind } of members) {
+      const names = [symbol.name, stripAccessorPrefix(symbol.name)];
+      const qualifiedName = `${cls.name}.${symbol.name}`;
+      if (names.some((name) => matchesSymbolPath(`${cls.name}.${name}`, symbolPath))) {
+        candidates.push({ qualifiedName, kind, symbol, extracted });
+      }
+    }
+  }
+
+  for (const func of extracted.functions) {
+    if (func.name === symbolPath) {
+      candidates.push({ qualifiedName: func.name, kind: 'function', symbol: func, extracted });
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * Returns the 0-based index of the first line of the comments, annotations
+ * and attributes directly above the declaration starting at `startIndex`
+ */
+function leadingCommentStart(lines: string[], startIndex: number): number {
+  let index = startIndex;
+
+  while (index > 0) {
+    const previous = lines[index - 1]!.trim();
+
+    if (previous.endsWith('*/')) {
+      let open = index - 1;
+      while (open > 0 && !lines[open]!.includes('/*')) {
+        open--;
+      }
+      index = open;
+    } else if (/^(?:\/\/|#|@)/.test(previous)) {
+      index--;
+    } else {
+      break;
+    }
+  }
+
+  return index;
+}
+
+/**
+ * Removes indentation shared by all non-blank lines
+ */
+function dedent(lines: string[]): string[] {
+  const indents = lines
+    .filter((line) => line.trim() !== '')
+    .map((line) => line.length - line.trimStart().length);
+  const margin = indents.length > 0 ? Math.min(...indents) : 0;
+  return lines.map((line) => line.slice(margin).trimEnd());
+}
+
+/**
+ * Reads the full source of a symbol, including the doc comments above it
+ */
+async function readSymbolSource(filePath: string, location: SourceLocation): Promise<string> {
+  const content = await fs.readFile(filePath, 'utf-8');
+  const lines = content.split('\n');
+  const start = leadingCommentStart(lines, location.startLine - 1);
+  return dedent(lines.slice(start, location.endLine)).join('\n');
+}
+
+/**
+ * Formats a location as `path:start-end`
+ */
+function formatLocation(filePath: string, location: SourceLocation | undefined): string {
+  if (location === undefined) {
+    return filePath;
+  }
+  return location.startLine === location.endLine
+    ? `${filePath}:${location.startLine}`
+    : `${filePath}:${location.startLine}-${location.endLine}`;
+}
+
+/**
+ * Formats the list of definitions matching an ambiguous symbol path
+ */
+function formatCandidates(symbolPath: string, candidates: SymbolCandidate[]): string {
+  const lines: string[] = [];
+
+  lines.push(`# Ambiguous symbol: \`${symbolPath}\``);
+  lines.push('');
+  lines.push(
+    `Found ${candidates.length} definitions. Use a qualified path (e.g. \`Class.method\`) or the \`directories\`/\`globs\` filters to pick one:`
+  );
+  lines.push('');
+
+  for (const candidate of candidates) {
+    const { qualifiedName, kind, symbol, extracted } = candidate;
+    lines.push(
+      `- \`${qualifiedName}\` (${kind}) — \`${formatLocation(extracted.filePath, symbol.location)}\``
+    );
+    lines.push('  ```' + getFenceTag(extracted.language));
+    lines.push('  ' + symbol.signature);
+    lines.push('  ```');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Finds the definition of a named symbol and returns its full source
+ */
+export async function getSymbol(
+  request: GetSymbolRequest,
+  config: GetSymbolConfig
+): Promise<string> {
+  const symbolPath = request.symbol.trim();
+  const name = stripAccessorPrefix(symbolPath.split('.').pop()!);
+  if (name === '') {
+    throw new Error(`Symbol "${symbolPath}" does not end in a name`);
+  }
+  const directories = resolveSearchDirectories(request.directories, config.searchableDirectories);
+  const globs = request.globs !== undefined && request.globs.length > 0 ? request.globs : ['**/*'];
+  const walkOptions: WalkOptions = { respectIgnoreFiles: request.respect_ignore_files };
+  const candidates: SymbolCandidate[] = [];
+
+  for (const dirPath of directories) {
+    try {
+      const stats = await fs.stat(dirPath);
+      if (!stats.isDirectory()) {
+        continue;
+      }
+    } catch {
+      // Skip non-existent directories
+      continue;
+    }
+
+    // Only source code is searched; prose, data and binary files are skipped
+    const files = await applyFileFilters(
+      (await findFilesByGlob(dirPath, globs, walkOptions)).filter(isCodeFile),
+      { skipBinary: true }
+    );
+    for (const filePath of files) {
+      // Only run the extractor on files that mention the symbol
+      let content: string;
+      try {
+        content = await fs.readFile(filePath, 'utf-8');
+      } catch {
+        continue;
+      }
+      if (!content.includes(name)) {
+        continue;
+      }
+
+      candidates.push(...findCandidates(await extractCodeFromFile(filePath), symbolPath));
+    }
+  }
+
+  if (candidates.length === 0) {
+    return (
+      `# Symbol not found: \`${symbolPath}\`\n\n` +
+      `**Searched directories:** ${directories.length > 0 ? directories.join(', ') : 'None'}\n` +
+      `**Glob patterns:** ${globs.join(', ')}\n`
+    );
+  }
+
+  if (candidates.length > 1) {
+    return formatCandidates(symbolPath, candidates);
+  }
+
+  const { qualifiedName, kind, symbol, extracted } = candidates[0]!;
+  const lines: string[] = [];
+
+  lines.push(`# Symbol: \`${qualifiedName}\``);
+  lines.push('');
+  lines.push(`**Kind:** ${kind}`);
+  lines.push(`**Location:** \`${formatLocation(extracted.filePath, symbol.location)}\``);
+  lines.push('');
+  lines.push('```' + getFenceTag(extracted.language));
+  if (symbol.location !== undefined) {
+    lines.push(await readSymbolSource(extracted.filePath, symbol.location));
+  } else {
+    // Placeholders such as Go receiver types have no span of their own
+    lines.push(symbol.signature);
+  }
+  lines.push('```');
+
+  return lines.join('\n');
+}
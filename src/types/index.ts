@@ -1,27 +1,269 @@
+export type Visibility = 'public' | 'private';
+
 export interface FetchContextRequest {
   search_terms: string[];
+  /** Patterns starting with `!` exclude the files they match */
   globs?: string[];
   regex?: string[];
+  /** Flags for the regex patterns, such as `i`, `m`, `s` and `u` (default: `m`) */
+  regex_flags?: string;
+  /** Whether a file must match `any` or `all` of the regex patterns */
+  match_mode?: 'any' | 'all';
+  /** Match the regex patterns as plain text */
+  literal?: boolean;
+  exclude_globs?: string[];
+  /** Largest file size in bytes for matched files */
+  max_file_size?: number;
+  /** Leave binary files out of the matched files (default: true) */
+  skip_binary?: boolean;
+  /** Only match files modified within a duration such as `7d` or `12h` */
+  modified_within?: string;
+  /** Lines of context shown around each regex match */
+  match_context_lines?: number;
+  /** Most regex matches listed per file */
+  max_matches_per_file?: number;
+  /** Stop searching a directory once this many files are found */
+  max_files?: number;
   reference_depth?: number;
+  /** Follow files importing the matched files, the files they import, or both */
+  reference_direction?: 'incoming' | 'outgoing' | 'both';
+  /**
+   * Searchable directory names or paths whose files reference tracking may
+   * cross into; all searchable directories when omitted
+   */
+  reference_roots?: string[];
+  /** `public` keeps only symbols that are part of a file's public API */
+  visibility?: 'public' | 'all';
+  /** Render the import relationships between the found files as a diagram */
+  include_graph?: boolean;
+  graph_format?: GraphFormat;
+  /** List the import cycles that involve the found files */
+  include_cycles?: boolean;
+  /** Skip files excluded by .gitignore, .ignore and .contextignore files (default: true) */
+  respect_ignore_files?: boolean;
+}
+
+export type GraphFormat = 'mermaid' | 'dot' | 'both';
+
+export interface GetSymbolRequest {
+  /** Symbol path such as `AuthService.login`, or a bare function or class name */
+  symbol: string;
+  /** Searchable directory names or absolute paths to restrict the search to */
+  directories?: string[];
+  globs?: string[];
+  /** Skip files excluded by .gitignore, .ignore and .contextignore files (default: true) */
+  respect_ignore_files?: boolean;
+}
+
+export interface FindUsagesRequest {
+  /** Symbol path such as `AuthService.login`; its last segment is searched for */
+  symbol: string;
+  /** Searchable directory names or absolute paths to restrict the search to */
+  directories?: string[];
+  globs?: string[];
+  /** Lines of context shown around each usage */
+  context_lines?: number;
+  /** Skip files excluded by .gitignore, .ignore and .contextignore files (default: true) */
+  respect_ignore_files?: boolean;
+}
+
+export interface FindCyclesRequest {
+  /** Searchable directory names or absolute paths to restrict the search to */
+  directories?: string[];
+  /** Only report cycles containing a file matching these patterns */
+  globs?: string[];
+  /** Skip files excluded by .gitignore, .ignore and .contextignore files (default: true) */
+  respect_ignore_files?: boolean;
+}
+
+/**
+ * A span in a source file. Lines and columns are 1-based and inclusive.
+ */
+export interface SourceLocation {
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+}
+
+/**
+ * A parameter, return value or exception described in a doc comment
+ */
+export interface DocTagEntry {
+  name?: string;
+  type?: string;
+  description?: string;
+}
+
+/**
+ * Structured tags parsed from a doc comment (`@param`, `:returns:`, `Raises:`, ...)
+ */
+export interface DocTags {
+  params: DocTagEntry[];
+  returns?: DocTagEntry;
+  throws: DocTagEntry[];
+  /** Deprecation note; empty when the tag gives no reason */
+  deprecated?: string;
+}
+
+/**
+ * A named code element with its signature and documentation
+ */
+export interface CodeSymbol {
+  name: string;
+  signature: string;
+  /** Doc comment text, without the tags parsed into `docTags` */
+  documentation?: string;
+  docTags?: DocTags;
+  location?: SourceLocation;
+  /** Whether the symbol is part of its file's public API; omitted when unknown */
+  visibility?: Visibility;
+}
+
+/**
+ * A type named in a class's `extends`, `implements` or `with` clause
+ */
+export interface Supertype {
+  /** Simple name without type arguments or qualifiers */
+  name: string;
+  relation: 'extends' | 'implements' | 'with';
+}
+
+/**
+ * A class-like declaration (class, interface, enum, mixin, ...) and its members
+ */
+export interface ExtractedClass extends CodeSymbol {
+  kind?: string;
+  supertypes: Supertype[];
+  methods: CodeSymbol[];
+  fields: CodeSymbol[];
+  enumValues: CodeSymbol[];
 }
 
 export interface ExtractedCode {
   filePath: string;
-  classes: Array<{
-    name: string;
-    signature: string;
-    documentation?: string;
-    methods: Array<{
-      name: string;
-      signature: string;
-      documentation?: string;
-    }>;
-  }>;
-  functions: Array<{
-    name: string;
-    signature: string;
-    documentation?: string;
-  }>;
+  /** Language id of the extractor that produced this result */
+  language: string;
+  classes: ExtractedClass[];
+  functions: CodeSymbol[];
+  /** Top-level constants and variables */
+  variables: CodeSymbol[];
+}
+
+/**
+ * Symbols produced by a language extractor for a single file
+ */
+export type ExtractorResult = Pick<ExtractedCode, 'classes' | 'functions'> &
+  Partial<Pick<ExtractedCode, 'variables'>>;
+
+/**
+ * A pluggable extractor for one language
+ */
+export interface LanguageExtractor {
+  /** Language id, e.g. "typescript" */
+  id: string;
+  /** File extensions handled by this extractor, including the dot */
+  extensions: string[];
+  /** Tag used for markdown code fences */
+  fence: string;
+  extract(content: string, filePath: string): ExtractorResult | Promise<ExtractorResult>;
+  /**
+   * Replaces comments and string contents with spaces, keeping line breaks
+   * and offsets. Usage search skips comments and strings when provided.
+   */
+  mask?(content: string): string;
+}
+
+/**
+ * File lookups shared by the import resolvers while an import graph is updated
+ */
+export interface ImportResolveContext {
+  /** Directory the import graph is built for */
+  root: string;
+  isFile(filePath: string): Promise<boolean>;
+  isDirectory(dirPath: string): Promise<boolean>;
+  /** Lists the names of the files in a directory */
+  listFiles(dirPath: string): Promise<string[]>;
+  /** Reads a configuration file; the graph is re-resolved when it changes */
+  readText(filePath: string): Promise<string | undefined>;
+  /** Reads a JSON configuration file, allowing comments and trailing commas */
+  readJson(filePath: string): Promise<unknown>;
+  /** Finds the closest directory at or above `startDir` that contains `name` */
+  findUp(startDir: string, name: string): Promise<string | undefined>;
+  /** Computes a value once per graph update, e.g. a parsed configuration */
+  memo<T>(key: string, compute: () => Promise<T>): Promise<T>;
+}
+
+/**
+ * Import extraction and resolution for one language
+ */
+export interface ImportResolver {
+  /** File extensions handled by this resolver, including the dot */
+  extensions: string[];
+  /** Returns the import specifiers written in a source file */
+  extractImports(content: string): string[];
+  /**
+   * Returns the specifiers among the imports that join files into one unit,
+   * such as Dart `part` and `part of`; they are not imports between modules
+   */
+  extractParts?(content: string): string[];
+  /** Resolves a specifier to the local files it refers to */
+  resolve(specifier: string, fromFile: string, ctx: ImportResolveContext): Promise<string[]>;
+}
+
+/**
+ * A file in a dependency diagram
+ */
+export interface DependencyNode {
+  file: string;
+  role: 'matched' | 'referencing' | 'imported';
+  /** Import steps between the file and the matched files */
+  depth: number;
+}
+
+/**
+ * Files found by reference tracking and the imports between them
+ */
+export interface DependencyGraph {
+  nodes: DependencyNode[];
+  /** Import edges as `[importing file, imported file]` */
+  edges: Array<[string, string]>;
+}
+
+/**
+ * A line matched by a content regex, with the lines around it
+ */
+export interface RegexMatch {
+  /** 1-based line the match starts on */
+  line: number;
+  /** 1-based line the match ends on */
+  endLine: number;
+  /** The pattern that matched */
+  pattern: string;
+  /** 1-based line of the first context line */
+  contextStart: number;
+  /** The matched line and its context lines */
+  lines: string[];
+}
+
+/**
+ * The regex matches found in one file
+ */
+export interface FileRegexMatches {
+  /** Matches shown, at most the per-file cap */
+  matches: RegexMatch[];
+  /** Number of matching lines in the file */
+  total: number;
+}
+
+/**
+ * A strongly connected set of files that import each other, directly or
+ * through the other files in the set
+ */
+export interface ImportCycle {
+  files: string[];
+  /** The imports between files of the cycle, as `[importing file, imported file]` */
+  edges: Array<[string, string]>;
 }
 
 export interface CacheEntry {
@@ -31,7 +273,24 @@ export interface CacheEntry {
   target_directories?: string[]; // Legacy support
   globs?: string[];
   regex?: string[];
+  regex_flags?: string;
+  match_mode?: 'any' | 'all';
+  literal?: boolean;
+  exclude_globs?: string[];
+  max_file_size?: number;
+  skip_binary?: boolean;
+  modified_within?: string;
+  match_context_lines?: number;
+  max_matches_per_file?: number;
+  max_files?: number;
   reference_depth?: number;
+  reference_direction?: 'incoming' | 'outgoing' | 'both';
+  reference_roots?: string[];
+  visibility?: 'public' | 'all';
+  include_graph?: boolean;
+  graph_format?: GraphFormat;
+  include_cycles?: boolean;
+  respect_ignore_files?: boolean;
   generated_at: Date;
   file_paths: string[];
 }
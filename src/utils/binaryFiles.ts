@@ -0,0 +1,25 @@
+import { promises as fs } from 'fs';
+
+// Bytes read from the start of a file to decide whether it is binary
+const BINARY_SAMPLE_SIZE = 8000;
+
+/**
+ * Checks whether file content looks binary: its first bytes contain a NUL byte
+ */
+export function looksBinary(content: Buffer): boolean {
+  return content.subarray(0, BINARY_SAMPLE_SIZE).includes(0);
+}
+
+/**
+ * Checks whether a file looks binary, reading only its first bytes
+ */
+export async function isBinaryFile(filePath: string): Promise<boolean> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(BINARY_SAMPLE_SIZE);
+    const { bytesRead } = await handle.read(buffer, 0, BINARY_SAMPLE_SIZE, 0);
+    return looksBinary(buffer.subarray(0, bytesRead));
+  } finally {
+    await handle.close();
+  }
+}
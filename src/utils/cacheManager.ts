@@ -8,7 +8,24 @@ interface CacheRequest {
   target_directories?: string[]; // Legacy support
   globs?: string[];
   regex?: string[];
+  regex_flags?: string;
+  match_mode?: 'any' | 'all';
+  literal?: boolean;
+  exclude_globs?: string[];
+  max_file_size?: number;
+  skip_binary?: boolean;
+  modified_within?: string;
+  match_context_lines?: number;
+  max_matches_per_file?: number;
+  max_files?: number;
   reference_depth?: number;
+  reference_direction?: 'incoming' | 'outgoing' | 'both';
+  reference_roots?: string[];
+  visibility?: 'public' | 'all';
+  include_graph?: boolean;
+  graph_format?: 'mermaid' | 'dot' | 'both';
+  include_cycles?: boolean;
+  respect_ignore_files?: boolean;
 }
 
 interface CacheMetadata {
@@ -31,7 +48,24 @@ export function generateCacheKey(
     target_directories: request.target_directories,
     globs: request.globs || [],
     regex: request.regex || [],
+    regex_flags: request.regex_flags ?? 'm',
+    match_mode: request.match_mode ?? 'any',
+    literal: request.literal ?? false,
+    exclude_globs: request.exclude_globs ?? [],
+    max_file_size: request.max_file_size,
+    skip_binary: request.skip_binary ?? true,
+    modified_within: request.modified_within,
+    match_context_lines: request.match_context_lines ?? 2,
+    max_matches_per_file: request.max_matches_per_file ?? 10,
+    max_files: request.max_files,
     reference_depth: request.reference_depth ?? -1,
+    reference_direction: request.reference_direction ?? 'incoming',
+    reference_roots: request.reference_roots ?? [],
+    visibility: request.visibility ?? 'all',
+    include_graph: request.include_graph ?? false,
+    graph_format: request.graph_format ?? 'mermaid',
+    include_cycles: request.include_cycles ?? false,
+    respect_ignore_files: request.respect_ignore_files ?? true,
     files: filePaths.sort(),
     modTimes: modificationTimes,
   };
@@ -1,418 +1,223 @@
 import { promises as fs } from 'fs';
-import type { ExtractedCode } from '../types/index.js';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import type {
+  CodeSymbol,
+  ExtractedCode,
+  ExtractorResult,
+  LanguageExtractor,
+} from '../types/index.js';
+import type { ExtractorConfig } from '../config.js';
+import { extractDart, maskDart } from './extractors/dartExtractor.js';
+import { extractTypeScript, maskTypeScript } from './extractors/typescriptExtractor.js';
+import { extractPython, maskPython } from './extractors/pythonExtractor.js';
+import { extractGo, maskGo } from './extractors/goExtractor.js';
+import { extractRust, maskRust } from './extractors/rustExtractor.js';
+import { extractGenericOutline, guessLanguage } from './extractors/genericExtractor.js';
+import { parseExtractedDocumentation } from './docParser.js';
+
+// Accessor prefixes used in method names, e.g. `get isLoggedIn`
+const ACCESSOR_PREFIX = /^(?:get|set|delete) /;
+
+const extractorsById = new Map<string, LanguageExtractor>();
+const extractorsByExtension = new Map<string, LanguageExtractor>();
+
+const BUILTIN_EXTRACTORS: LanguageExtractor[] = [
+  { id: 'dart', extensions: ['.dart'], fence: 'dart', extract: extractDart, mask: maskDart },
+  {
+    id: 'typescript',
+    extensions: ['.ts', '.tsx', '.mts', '.cts'],
+    fence: 'typescript',
+    extract: extractTypeScript,
+    mask: maskTypeScript,
+  },
+  {
+    id: 'javascript',
+    extensions: ['.js', '.jsx', '.mjs', '.cjs'],
+    fence: 'javascript',
+    extract: extractTypeScript,
+    mask: maskTypeScript,
+  },
+  {
+    id: 'python',
+    extensions: ['.py', '.pyi'],
+    fence: 'python',
+    extract: extractPython,
+    mask: maskPython,
+  },
+  { id: 'go', extensions: ['.go'], fence: 'go', extract: extractGo, mask: maskGo },
+  { id: 'rust', extensions: ['.rs'], fence: 'rust', extract: extractRust, mask: maskRust },
+];
 
 /**
- * Extracts documentation comments preceding a code element
- * Supports /// style (Dart/Rust), JSDoc style (JS/Java), and # style (Python)
+ * Registers a language extractor, replacing any extractor previously
+ * registered for the same language id or extensions
  */
-function extractDocumentation(lines: string[], startIndex: number): string | undefined {
-  const docLines: string[] = [];
-  let index = startIndex - 1;
-
-  // Work backwards to collect documentation lines
-  while (index >= 0) {
-    const line = lines[index];
-    if (line === undefined) {
-      break;
-    }
-
-    const trimmedLine = line.trim();
-    if (trimmedLine.startsWith('///')) {
-      docLines.unshift(trimmedLine.substring(3).trim());
-    } else if (trimmedLine === '' && docLines.length > 0) {
-      // Allow empty lines within documentation
-      continue;
-    } else {
-      // Stop when we hit non-documentation
-      break;
-    }
-    index--;
+export function registerExtractor(extractor: LanguageExtractor): void {
+  extractorsById.set(extractor.id, extractor);
+  for (const extension of extractor.extensions) {
+    extractorsByExtension.set(extension.toLowerCase(), extractor);
   }
+}
 
-  return docLines.length > 0 ? docLines.join('\n') : undefined;
+for (const extractor of BUILTIN_EXTRACTORS) {
+  registerExtractor(extractor);
 }
 
 /**
- * Extracts the complete signature including multi-line definitions
+ * Looks up an extractor by language id or by the extension of a file path
  */
-function extractCompleteSignature(lines: string[], startIndex: number): string {
-  let signature = lines[startIndex] || '';
-  let openBraces = 0;
-  let openParens = 0;
-  let openBrackets = 0;
-  let inString = false;
-  let stringChar = '';
-  let index = startIndex;
-
-  // Count initial braces/parens/brackets
-  for (const char of signature) {
-    if (!inString) {
-      if (char === '"' || char === "'") {
-        inString = true;
-        stringChar = char;
-      } else if (char === '{') {
-        openBraces++;
-      } else if (char === '}') {
-        openBraces--;
-      } else if (char === '(') {
-        openParens++;
-      } else if (char === ')') {
-        openParens--;
-      } else if (char === '[') {
-        openBrackets++;
-      } else if (char === ']') {
-        openBrackets--;
-      }
-    } else if (char === stringChar && signature[signature.indexOf(char) - 1] !== '\\') {
-      inString = false;
-    }
-  }
-
-  // Continue reading lines until we have balanced braces/parens
-  while (
-    (openBraces > 0 ||
-      openParens > 0 ||
-      openBrackets > 0 ||
-      inString ||
-      signature.trim().endsWith(',') ||
-      false ||
-      signature.trim().endsWith('=>') ||
-      false) &&
-    index < lines.length - 1
-  ) {
-    index++;
-    const nextLine = lines[index];
-    if (nextLine === undefined || nextLine === '') {
-      continue;
-    }
-
-    signature += ' ' + nextLine.trim();
-
-    for (const char of nextLine) {
-      if (!inString) {
-        if (char === '"' || char === "'") {
-          inString = true;
-          stringChar = char;
-        } else if (char === '{') {
-          openBraces++;
-        } else if (char === '}') {
-          openBraces--;
-        } else if (char === '(') {
-          openParens++;
-        } else if (char === ')') {
-          openParens--;
-        } else if (char === '[') {
-          openBrackets++;
-        } else if (char === ']') {
-          openBrackets--;
-        }
-      } else if (char === stringChar && nextLine[nextLine.indexOf(char) - 1] !== '\\') {
-        inString = false;
-      }
-    }
-
-    // Stop at implementation start
-    if (
-      openBraces === 0 &&
-      openParens === 0 &&
-      openBrackets === 0 &&
-      !inString &&
-      (nextLine.includes('{') || nextLine.includes(';'))
-    ) {
-      break;
-    }
-  }
-
-  return signature.replace(/\s+/g, ' ').trim();
+export function getExtractor(languageOrPath: string): LanguageExtractor | undefined {
+  return (
+    extractorsById.get(languageOrPath) ??
+    extractorsByExtension.get(path.extname(languageOrPath).toLowerCase()) ??
+    extractorsByExtension.get(languageOrPath.toLowerCase())
+  );
 }
 
 /**
- * Extracts class information from Dart code
+ * Returns the markdown code-fence tag for a language id
  */
-function extractClasses(content: string): ExtractedCode['classes'] {
-  const lines = content.split('\n');
-  const classes: ExtractedCode['classes'] = [];
-
-  // Regex patterns for class detection
-  const classPattern = /^(abstract\s+)?(class|mixin|enum|extension)\s+(\w+)/;
-  const methodPattern =
-    /^\s*(static\s+|final\s+|const\s+|late\s+)*([\w<>\[\]?]+\s+)?(get\s+|set\s+)?(\w+)\s*\(/;
-  const constructorPattern = /^\s*(\w+)\s*\.\s*(\w+)\s*\(/; // Named constructors
-  const getterPattern = /^\s*([\w<>\[\]?]+\s+)?get\s+(\w+)\s*[{=>]/;
-  const setterPattern = /^\s*set\s+(\w+)\s*\(/;
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    if (line === undefined || line === '') {
-      continue;
-    }
-
-    const trimmedLine = line.trim();
-    const classMatch = trimmedLine.match(classPattern);
-
-    if (classMatch !== null) {
-      const className = classMatch[3];
-      if (className === undefined) {
-        continue;
-      }
-
-      const signature = extractCompleteSignature(lines, i);
-      const documentation = extractDocumentation(lines, i);
-      const methods: ExtractedCode['classes'][0]['methods'] = [];
-
-      // Find the class body
-      let braceCount = 0;
-      let classStarted = false;
-      let j = i;
-
-      // Find opening brace
-      while (j < lines.length) {
-        const currentLine = lines[j];
-        if (currentLine === undefined || currentLine === '') {
-          j++;
-          continue;
-        }
-
-        if (currentLine.includes('{')) {
-          classStarted = true;
-          braceCount += (currentLine.match(/\{/g) || []).length;
-          braceCount -= (currentLine.match(/\}/g) || []).length;
-          break;
-        }
-        j++;
-      }
-
-      if (!classStarted) {
-        continue;
-      }
-
-      // Extract methods within the class
-      j++;
-      while (j < lines.length && braceCount > 0) {
-        const methodLine = lines[j];
-        if (methodLine === undefined) {
-          j++;
-          continue;
-        }
-
-        const trimmedMethodLine = methodLine.trim();
-
-        // Update brace count
-        braceCount += (methodLine.match(/\{/g) || []).length;
-        braceCount -= (methodLine.match(/\}/g) || []).length;
-
-        // Skip empty lines and comments
-        if (trimmedMethodLine === '' || trimmedMethodLine.startsWith('//')) {
-          j++;
-          continue;
-        }
-
-        // Check for constructors
-        const constructorMatch =
-          trimmedMethodLine.match(new RegExp(`^${className}\\s*\\(`)) ||
-          trimmedMethodLine.match(constructorPattern);
-
-        if (constructorMatch !== null) {
-          const methodSignature = extractCompleteSignature(lines, j);
-          const methodDoc = extractDocumentation(lines, j);
-          const constructorName = constructorMatch[2] || className;
-
-          methods.push({
-            name: constructorName,
-            signature: methodSignature,
-            documentation: methodDoc,
-          });
-        }
-        // Check for getters
-        else if (getterPattern.test(trimmedMethodLine)) {
-          const getterMatch = trimmedMethodLine.match(getterPattern);
-          if (getterMatch?.[2]) {
-            const methodSignature = extractCompleteSignature(lines, j);
-            const methodDoc = extractDocumentation(lines, j);
-
-            methods.push({
-              name: `get ${getterMatch[2]}`,
-              signature: methodSignature,
-              documentation: methodDoc,
-            });
-          }
-        }
-        // Check for setters
-        else if (setterPattern.test(trimmedMethodLine)) {
-          const setterMatch = trimmedMethodLine.match(setterPattern);
-          if (setterMatch?.[1]) {
-            const methodSignature = extractCompleteSignature(lines, j);
-            const methodDoc = extractDocumentation(lines, j);
-
-            methods.push({
-              name: `set ${setterMatch[1]}`,
-              signature: methodSignature,
-              documentation: methodDoc,
-            });
-          }
-        }
-        // Check for regular methods
-        else if (methodPattern.test(trimmedMethodLine)) {
-          const methodMatch = trimmedMethodLine.match(methodPattern);
-          if (methodMatch?.[4] !== undefined) {
-            const methodSignature = extractCompleteSignature(lines, j);
-            const methodDoc = extractDocumentation(lines, j);
+export function getFenceTag(language: string): string {
+  return extractorsById.get(language)?.fence ?? (language === 'text' ? '' : language);
+}
 
-            methods.push({
-              name: methodMatch[4],
-              signature: methodSignature,
-              documentation: methodDoc,
-            });
-          }
-        }
+/**
+ * Checks whether a file is source code: it has a registered extractor or a
+ * language the generic outline recognizes
+ */
+export function isCodeFile(filePath: string): boolean {
+  const extension = path.extname(filePath).toLowerCase();
+  return extractorsByExtension.has(extension) || guessLanguage(extension) !== 'text';
+}
 
-        j++;
-      }
+/**
+ * Returns a member name without the accessor prefix extractors give getters
+ * and setters, so `get isLoggedIn` becomes `isLoggedIn`
+ */
+export function stripAccessorPrefix(name: string): string {
+  return name.replace(ACCESSOR_PREFIX, '');
+}
 
-      classes.push({
-        name: className,
-        signature,
-        documentation,
-        methods,
-      });
+/**
+ * Returns the code of a file with comments and string contents blanked out,
+ * or the content unchanged when its extractor cannot mask them
+ */
+export function maskCode(filePath: string, content: string): string {
+  const extractor = extractorsByExtension.get(path.extname(filePath).toLowerCase());
+  return extractor?.mask?.(content) ?? content;
+}
 
-      // Skip to end of class
-      i = j;
-    }
+/**
+ * Checks that a value exported by a plugin module looks like a LanguageExtractor
+ */
+function isLanguageExtractor(value: unknown): value is LanguageExtractor {
+  if (typeof value !== 'object' || value === null) {
+    return false;
   }
-
-  return classes;
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate['id'] === 'string' &&
+    Array.isArray(candidate['extensions']) &&
+    candidate['extensions'].every((ext) => typeof ext === 'string') &&
+    typeof candidate['fence'] === 'string' &&
+    typeof candidate['extract'] === 'function' &&
+    (candidate['mask'] === undefined || typeof candidate['mask'] === 'function')
+  );
 }
 
 /**
- * Extracts top-level functions from Dart code
+ * Registers the extractors configured under `extractors` in the config.
+ * Entries either load a module exporting LanguageExtractor objects, or map
+ * extra extensions onto an already registered language.
  */
-function extractFunctions(content: string): ExtractedCode['functions'] {
-  const lines = content.split('\n');
-  const functions: ExtractedCode['functions'] = [];
-
-  // Remove class bodies to avoid extracting methods as functions
-  const cleanedLines = removeClassBodies(lines);
-
-  // Regex pattern for function detection
-  const functionPattern = /^([\w<>[\]?]+\s+)?(\w+)\s*\(/;
-
-  for (let i = 0; i < cleanedLines.length; i++) {
-    const line = cleanedLines[i];
-    if (line === undefined || line === '') {
-      continue;
-    }
-
-    const trimmedLine = line.trim();
-
-    // Skip empty lines, comments, imports, and common keywords
-    if (
-      trimmedLine === '' ||
-      trimmedLine.startsWith('//') ||
-      trimmedLine.startsWith('import') ||
-      trimmedLine.startsWith('export') ||
-      trimmedLine.startsWith('part') ||
-      trimmedLine.startsWith('library') ||
-      trimmedLine.startsWith('typedef') ||
-      trimmedLine.startsWith('const ') ||
-      trimmedLine.startsWith('final ') ||
-      trimmedLine.startsWith('var ') ||
-      trimmedLine.includes('class ') ||
-      trimmedLine.includes('enum ') ||
-      trimmedLine.includes('mixin ')
-    ) {
+export async function loadConfiguredExtractors(entries: ExtractorConfig[]): Promise<void> {
+  for (const entry of entries) {
+    if (entry.module !== undefined) {
+      try {
+        const loaded = (await import(pathToFileURL(entry.module).href)) as Record<string, unknown>;
+        const exported = [loaded['default'], loaded['extractor'], loaded['extractors']].flat();
+        const extractors = exported.filter(isLanguageExtractor);
+
+        if (extractors.length === 0) {
+          console.error(`Warning: No language extractors exported by ${entry.module}`);
+        }
+        extractors.forEach(registerExtractor);
+      } catch (error) {
+        console.error(`Warning: Failed to load extractor module ${entry.module}:`, error);
+      }
       continue;
     }
 
-    const functionMatch = trimmedLine.match(functionPattern);
-
-    if (functionMatch?.[2] !== undefined) {
-      const functionName = functionMatch[2];
-
-      // Skip common false positives
-      if (['if', 'for', 'while', 'switch', 'catch', 'assert'].includes(functionName)) {
+    if (entry.language !== undefined) {
+      const base = extractorsById.get(entry.language);
+      if (base === undefined) {
+        console.error(`Warning: Unknown extractor language "${entry.language}"`);
         continue;
       }
-
-      const signature = extractCompleteSignature(lines, i);
-      const documentation = extractDocumentation(lines, i);
-
-      functions.push({
-        name: functionName,
-        signature,
-        documentation,
+      registerExtractor({
+        ...base,
+        extensions: [...base.extensions, ...(entry.extensions ?? [])],
+        fence: entry.fence ?? base.fence,
       });
     }
   }
-
-  return functions;
 }
 
 /**
- * Removes class bodies from lines to prevent extracting methods as functions
+ * Main function to extract code information from a source file
  */
-function removeClassBodies(lines: string[]): string[] {
-  const cleanedLines = [...lines];
-  let inClass = false;
-  let braceCount = 0;
-
-  for (let i = 0; i < cleanedLines.length; i++) {
-    const line = cleanedLines[i];
-    if (line === undefined || line === '') {
-      continue;
-    }
-
-    const trimmedLine = line.trim();
-
-    if (
-      !inClass &&
-      (trimmedLine.includes('class ') ||
-        trimmedLine.includes('enum ') ||
-        trimmedLine.includes('mixin ') ||
-        trimmedLine.includes('extension '))
-    ) {
-      inClass = true;
-    }
-
-    if (inClass) {
-      braceCount += (line.match(/\{/g) ?? []).length;
-      braceCount -= (line.match(/\}/g) ?? []).length;
-
-      // Clear the line if we're inside a class
-      if (braceCount > 0) {
-        cleanedLines[i] = '';
-      }
+export async function extractCodeFromFile(filePath: string): Promise<ExtractedCode> {
+  const extractor = extractorsByExtension.get(path.extname(filePath).toLowerCase());
+  const language = extractor?.id ?? guessLanguage(path.extname(filePath).toLowerCase());
 
-      if (braceCount === 0) {
-        inClass = false;
-      }
-    }
+  // Prose and data files such as Markdown and JSON have no code outline
+  if (extractor === undefined && language === 'text') {
+    return { filePath, language, classes: [], functions: [], variables: [] };
   }
 
-  return cleanedLines;
-}
-
-/**
- * Main function to extract code information from a Dart file
- */
-export async function extractCodeFromFile(filePath: string): Promise<ExtractedCode> {
   try {
     const content = await fs.readFile(filePath, 'utf-8');
-
-    const classes = extractClasses(content);
-    const functions = extractFunctions(content);
+    const result: ExtractorResult = parseExtractedDocumentation(
+      extractor !== undefined
+        ? await extractor.extract(content, filePath)
+        : extractGenericOutline(content)
+    );
 
     return {
       filePath,
-      classes,
-      functions,
+      language,
+      ...result,
+      variables: result.variables ?? [],
     };
   } catch (error) {
     console.error(`Error extracting code from ${filePath}:`, error);
     return {
       filePath,
+      language,
       classes: [],
       functions: [],
+      variables: [],
     };
   }
 }
+
+/**
+ * Drops symbols marked private by their extractor, along with the members of
+ * private classes. Symbols without a visibility are kept.
+ */
+export function filterPublicApi(extracted: ExtractedCode): ExtractedCode {
+  const isPublic = (symbol: CodeSymbol): boolean => symbol.visibility !== 'private';
+
+  return {
+    ...extracted,
+    classes: extracted.classes.filter(isPublic).map((cls) => ({
+      ...cls,
+      methods: cls.methods.filter(isPublic),
+      fields: cls.fields.filter(isPublic),
+      enumValues: cls.enumValues.filter(isPublic),
+    })),
+    functions: extracted.functions.filter(isPublic),
+    variables: extracted.variables.filter(isPublic),
+  };
+}
@@ -0,0 +1,318 @@
+import type { CodeSymbol, DocTagEntry, DocTags, ExtractorResult } from '../types/index.js';
+
+type TagKind = 'param' | 'returns' | 'throws' | 'deprecated';
+
+interface ParsedDocumentation {
+  description?: string;
+  tags?: DocTags;
+}
+
+// JSDoc, Dartdoc, Javadoc and PHPDoc block tags
+const AT_TAG = /^@(\w+)\b\s*(.*)$/;
+const AT_TAG_KINDS: Record<string, TagKind> = {
+  param: 'param',
+  arg: 'param',
+  argument: 'param',
+  returns: 'returns',
+  return: 'returns',
+  throws: 'throws',
+  throw: 'throws',
+  exception: 'throws',
+  raise: 'throws',
+  deprecated: 'deprecated',
+};
+
+// Sphinx field lists, e.g. `:param str name: The name`
+const SPHINX_FIELD = /^:(\w+)(?:\s+([^:]+))?:\s*(.*)$/;
+const SPHINX_FIELD_KINDS: Record<string, TagKind> = {
+  param: 'param',
+  parameter: 'param',
+  arg: 'param',
+  argument: 'param',
+  key: 'param',
+  keyword: 'param',
+  returns: 'returns',
+  return: 'returns',
+  raises: 'throws',
+  raise: 'throws',
+  except: 'throws',
+  exception: 'throws',
+};
+const SPHINX_DEPRECATED = /^\.\.\s+deprecated::\s*(.*)$/;
+
+// Google-style docstring sections, e.g. `Args:` followed by indented items
+const GOOGLE_SECTION = /^(\w+):$/;
+const GOOGLE_SECTION_KINDS: Record<string, TagKind> = {
+  Args: 'param',
+  Arguments: 'param',
+  Parameters: 'param',
+  Params: 'param',
+  Returns: 'returns',
+  Return: 'returns',
+  Yields: 'returns',
+  Raises: 'throws',
+  Throws: 'throws',
+  Deprecated: 'deprecated',
+};
+const GOOGLE_ITEM = /^(\*{0,2}[\w$.]+)\s*(?:\(([^)]*)\))?\s*:\s*(.*)$/;
+
+// `{Type} name - description`; YARD puts the type after the name: `name [Type] description`
+const PARAM_TAG =
+  /^(?:\{([^}]*)\}\s*)?(\[[^\]]*\]|[\w$.]+)?\s*(?:\[([^\]]*)\]\s*)?(?:[-:]\s*)?([\s\S]*)$/;
+// `{Type} description`, or YARD's `[Type] description`
+const TYPED_TAG = /^(?:(?:\{([^}]*)\}|\[([^\]]*)\])\s*)?([\s\S]*)$/;
+// Javadoc-style `@throws IOException when ...` names the type without braces
+const EXCEPTION_NAME = /^([\w$.]*(?:Error|Exception))\b\s*(?:-\s*)?([\s\S]*)$/;
+
+/**
+ * Appends a continuation line to a tag's description
+ */
+function appendText(text: string | undefined, line: string): string {
+  return text === undefined || text === '' ? line : `${text} ${line}`;
+}
+
+/**
+ * Returns the indentation width of a line
+ */
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+/**
+ * Parses the text after an `@param` tag: `{Type} name - description`,
+ * `[name=default] description` or `name: description`
+ */
+function parseParamTag(text: string): DocTagEntry {
+  const match = PARAM_TAG.exec(text);
+  const rawName = match?.[2];
+  const name = rawName
+    ?.replace(/^\[|\]$/g, '')
+    .split('=')[0]
+    ?.trim();
+  return {
+    name: name !== '' ? name : undefined,
+    type: (match?.[1] ?? match?.[3])?.trim(),
+    description: match?.[4]?.trim() ?? '',
+  };
+}
+
+/**
+ * Parses the text after an `@returns` or `@throws` tag
+ */
+function parseTypedTag(kind: TagKind, text: string): DocTagEntry {
+  const match = TYPED_TAG.exec(text);
+  const type = (match?.[1] ?? match?.[2])?.trim();
+  const description = match?.[3]?.trim() ?? '';
+
+  if (kind === 'throws' && type === undefined) {
+    const exception = EXCEPTION_NAME.exec(description);
+    if (exception !== null) {
+      return { type: exception[1], description: exception[2]?.trim() ?? '' };
+    }
+  }
+  return { type, description };
+}
+
+/**
+ * Parses a Google-style section item such as `name (int): description`
+ */
+function parseSectionItem(kind: TagKind, line: string): DocTagEntry {
+  if (kind === 'param') {
+    const item = GOOGLE_ITEM.exec(line);
+    if (item !== null) {
+      return { name: item[1], type: item[2]?.trim(), description: item[3]?.trim() ?? '' };
+    }
+    return { description: line };
+  }
+
+  // `Returns:` and `Raises:` items start with a type, e.g. `ValueError: If ...`
+  const item = /^([\w$.[\], ]+?)\s*:\s*(.*)$/.exec(line);
+  return item !== null
+    ? { type: item[1], description: item[2]?.trim() ?? '' }
+    : { description: line };
+}
+
+/**
+ * Splits a doc comment into its free-text description and structured tags.
+ * Understands `@tag` lines (JSDoc, Dartdoc, Javadoc), Sphinx `:field:` lists
+ * and Google-style `Args:`/`Returns:`/`Raises:` sections. Unknown tags such
+ * as `@example` stay in the description.
+ */
+export function parseDocumentation(text: string): ParsedDocumentation {
+  const description: string[] = [];
+  const tags: DocTags = { params: [], throws: [] };
+  let hasTags = false;
+  // The entry that continuation lines are appended to
+  let current: DocTagEntry | undefined;
+  let section: { kind: TagKind; itemIndent?: number } | undefined;
+  let deprecation: DocTagEntry | undefined;
+  let inFence = false;
+
+  const addEntry = (kind: TagKind, entry: DocTagEntry): void => {
+    hasTags = true;
+    if (kind === 'param') {
+      tags.params.push(entry);
+    } else if (kind === 'throws') {
+      tags.throws.push(entry);
+    } else if (kind === 'returns') {
+      tags.returns = entry;
+    } else {
+      deprecation = entry;
+    }
+    current = entry;
+  };
+
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim();
+
+    if (trimmed.startsWith('```')) {
+      inFence = !inFence;
+      current = undefined;
+      section = undefined;
+      description.push(line);
+      continue;
+    }
+    if (inFence) {
+      description.push(line);
+      continue;
+    }
+
+    if (trimmed === '') {
+      current = undefined;
+      section = undefined;
+      description.push('');
+      continue;
+    }
+
+    const atTag = AT_TAG.exec(trimmed);
+    if (atTag !== null) {
+      section = undefined;
+      const kind = AT_TAG_KINDS[atTag[1]!];
+      if (kind === undefined) {
+        current = undefined;
+        description.push(line);
+      } else if (kind === 'param') {
+        addEntry(kind, parseParamTag(atTag[2]!));
+      } else if (kind === 'deprecated') {
+        addEntry(kind, { description: atTag[2]!.trim() });
+      } else {
+        addEntry(kind, parseTypedTag(kind, atTag[2]!));
+      }
+      continue;
+    }
+
+    const field = SPHINX_FIELD.exec(trimmed);
+    if (field !== null) {
+      section = undefined;
+      const [, name, argument, rest] = field;
+      const words = argument?.trim().split(/\s+/) ?? [];
+      const kind = SPHINX_FIELD_KINDS[name!];
+
+      if (name === 'type' || name === 'rtype') {
+        // Types documented separately from their parameter or return value
+        const target =
+          name === 'rtype' ? tags.returns : tags.params.find((p) => p.name === words[0]);
+        if (target !== undefined) {
+          target.type = rest!.trim();
+        } else if (name === 'rtype') {
+          addEntry('returns', { type: rest!.trim(), description: '' });
+        }
+        current = undefined;
+      } else if (kind === 'param') {
+        const paramName = words.pop();
+        const type = words.length > 0 ? words.join(' ') : undefined;
+        addEntry(kind, { name: paramName, type, description: rest!.trim() });
+      } else if (kind === 'throws') {
+        addEntry(kind, { type: argument?.trim(), description: rest!.trim() });
+      } else if (kind === 'returns') {
+        addEntry(kind, { type: tags.returns?.type, description: rest!.trim() });
+      } else {
+        current = undefined;
+        description.push(line);
+      }
+      continue;
+    }
+
+    const deprecated = SPHINX_DEPRECATED.exec(trimmed);
+    if (deprecated !== null) {
+      section = undefined;
+      addEntry('deprecated', { description: deprecated[1]!.trim() });
+      continue;
+    }
+
+    const header = indentOf(line) === 0 ? GOOGLE_SECTION.exec(trimmed) : null;
+    const sectionKind = header !== null ? GOOGLE_SECTION_KINDS[header[1]!] : undefined;
+    if (sectionKind !== undefined) {
+      section = { kind: sectionKind };
+      current = undefined;
+      if (sectionKind === 'deprecated') {
+        addEntry(sectionKind, { description: '' });
+      }
+      continue;
+    }
+
+    if (section !== undefined && indentOf(line) > 0) {
+      section.itemIndent ??= indentOf(line);
+      // Each item of a list section starts at the section's first indentation
+      const startsItem =
+        section.kind !== 'returns' &&
+        section.kind !== 'deprecated' &&
+        indentOf(line) <= section.itemIndent;
+      if (startsItem || current === undefined) {
+        addEntry(section.kind, parseSectionItem(section.kind, trimmed));
+      } else {
+        current.description = appendText(current.description, trimmed);
+      }
+      continue;
+    }
+    section = undefined;
+
+    if (current !== undefined) {
+      current.description = appendText(current.description, trimmed);
+      continue;
+    }
+
+    description.push(line);
+  }
+
+  if (deprecation !== undefined) {
+    tags.deprecated = deprecation.description ?? '';
+  }
+
+  const descriptionText = description
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+  return {
+    description: descriptionText !== '' ? descriptionText : undefined,
+    tags: hasTags ? tags : undefined,
+  };
+}
+
+/**
+ * Replaces a symbol's documentation with its description and parsed tags
+ */
+function withParsedDocumentation<T extends CodeSymbol>(symbol: T): T {
+  if (symbol.documentation === undefined || symbol.docTags !== undefined) {
+    return symbol;
+  }
+
+  const { description, tags } = parseDocumentation(symbol.documentation);
+  return { ...symbol, documentation: description, docTags: tags };
+}
+
+/**
+ * Parses the doc comments of every symbol produced by an extractor
+ */
+export function parseExtractedDocumentation(result: ExtractorResult): ExtractorResult {
+  return {
+    classes: result.classes.map((cls) => ({
+      ...withParsedDocumentation(cls),
+      methods: cls.methods.map(withParsedDocumentation),
+      fields: cls.fields.map(withParsedDocumentation),
+      enumValues: cls.enumValues.map(withParsedDocumentation),
+    })),
+    functions: result.functions.map(withParsedDocumentation),
+    variables: result.variables?.map(withParsedDocumentation),
+  };
+}
@@ -0,0 +1,425 @@
+import type { CodeSymbol, ExtractorResult, SourceLocation, Visibility } from '../../types/index.js';
+import {
+  cleanBlockComment,
+  createSourceContext,
+  declarationEnd,
+  depthAt,
+  findBodyStart,
+  findMatching,
+  leadingLineComments,
+  lineContentStart,
+  lineIndexAt,
+  listItems,
+  maskSource,
+  parseSupertypes,
+  toLocation,
+  toSignature,
+  toValueSignature,
+  type MaskOptions,
+  type SourceContext,
+} from './sourceScanner.js';
+
+const DART_MASK_OPTIONS: MaskOptions = {
+  lineComments: ['//'],
+  blockComment: { open: '/*', close: '*/', nested: true },
+  quotes: ["'", '"'],
+  tripleQuotes: true,
+};
+
+const FIELD_PATTERN =
+  /^(?:(?:static|final|const|late|var|covariant|external)\s+)*(?:[\w<>[\]?,.\s]+?\s+)?(\w+)\s*(?:=(?!>)|;|,)/;
+const VARIABLE_PATTERN =
+  /(?:(?:const|final|late|var|external)\s+)+(?:[\w<>[\]?,.\s]+?\s+)?([A-Za-z_$][\w$]*)\s*(?:=(?!>)|;)/y;
+// Mixins declare their required superclass with `on`
+const HERITAGE_CLAUSES = {
+  extends: 'extends',
+  implements: 'implements',
+  with: 'with',
+  on: 'extends',
+} as const;
+const ENUM_VALUE_PATTERN = /(?:@[\w.]+(?:\s*\([^)]*\))?\s+)*(\w+)/y;
+
+/**
+ * Extracts the doc comment preceding a code element: either `///` lines or a
+ * `/** ... *\/` block. Annotations such as `@override` may sit between the
+ * comment and the declaration.
+ */
+function extractDocumentation(lines: string[], startIndex: number): string | undefined {
+  const docLines: string[] = [];
+  let index = startIndex - 1;
+
+  while (index >= 0 && /^@\w/.test(lines[index]?.trim() ?? '')) {
+    index--;
+  }
+
+  if (lines[index]?.trim().endsWith('*/') === true) {
+    let open = index;
+    while (open > 0 && !lines[open]!.includes('/*')) {
+      open--;
+    }
+    const comment = lines
+      .slice(open, index + 1)
+      .join('\n')
+      .trim();
+    return comment.startsWith('/**') ? cleanBlockComment(comment) : undefined;
+  }
+
+  // Work backwards to collect documentation lines
+  while (index >= 0) {
+    const line = lines[index];
+    if (line === undefined) {
+      break;
+    }
+
+    const trimmedLine = line.trim();
+    if (trimmedLine.startsWith('///')) {
+      // Keep relative indentation for code samples
+      docLines.unshift(trimmedLine.substring(3).replace(/^ /, ''));
+    } else if (trimmedLine === '' && docLines.length > 0) {
+      // Allow empty lines within documentation
+      index--;
+      continue;
+    } else {
+      // Stop when we hit non-documentation
+      break;
+    }
+    index--;
+  }
+
+  return docLines.length > 0 ? docLines.join('\n').trim() : undefined;
+}
+
+/**
+ * Returns the one-line signature of the declaration starting on line
+ * `lineIndex`: its header up to the body, an `=>` expression body or the
+ * terminating semicolon
+ */
+function declarationSignature(ctx: SourceContext, lineIndex: number): string {
+  const start = lineContentStart(ctx, lineIndex);
+  if (start === -1) {
+    return '';
+  }
+
+  let end = start;
+  while (end < ctx.masked.length) {
+    const ch = ctx.masked[end]!;
+    if (ch === '(' || ch === '[') {
+      end = findMatching(ctx.masked, end) + 1;
+      continue;
+    }
+    if (ch === '{' || ch === ';' || ch === '}' || ctx.masked.startsWith('=>', end)) {
+      break;
+    }
+    end++;
+  }
+
+  return toSignature(ctx.content, start, end);
+}
+
+/**
+ * Returns the masked text of a line, trimmed; comments and string contents
+ * are blank
+ */
+function maskedLine(ctx: SourceContext, lineIndex: number): string {
+  const start = ctx.lineStarts[lineIndex] ?? ctx.masked.length;
+  const end = ctx.lineStarts[lineIndex + 1] ?? ctx.masked.length;
+  return ctx.masked.slice(start, end).trim();
+}
+
+/**
+ * Identifiers starting with an underscore are library-private
+ */
+function visibilityOf(name: string): Visibility {
+  return name.startsWith('_') ? 'private' : 'public';
+}
+
+/**
+ * Returns the span of the declaration starting on line `lineIndex`, up to the
+ * end of its body or terminating semicolon
+ */
+function declarationLocation(ctx: SourceContext, lineIndex: number): SourceLocation | undefined {
+  const start = lineContentStart(ctx, lineIndex);
+  if (start === -1) {
+    return undefined;
+  }
+  return toLocation(ctx, start, declarationEnd(ctx, findBodyStart(ctx.masked, start)));
+}
+
+/**
+ * Extracts a field or variable declared on line `lineIndex`
+ */
+function extractValue(
+  ctx: SourceContext,
+  lines: string[],
+  lineIndex: number,
+  name: string
+): CodeSymbol {
+  const start = lineContentStart(ctx, lineIndex);
+  const end = declarationEnd(ctx, findBodyStart(ctx.masked, start));
+  return {
+    name,
+    signature: toValueSignature(ctx.content, start, end),
+    documentation: extractDocumentation(lines, lineIndex),
+    location: toLocation(ctx, start, end),
+    visibility: visibilityOf(name),
+  };
+}
+
+/**
+ * Extracts the values of an enum, which end at the first top-level `;` in
+ * enhanced enums
+ */
+function extractEnumValues(ctx: SourceContext, bodyOpen: number): CodeSymbol[] {
+  const values: CodeSymbol[] = [];
+
+  for (const { start, end } of listItems(ctx, bodyOpen, findMatching(ctx.masked, bodyOpen), ';')) {
+    ENUM_VALUE_PATTERN.lastIndex = start;
+    const name = ENUM_VALUE_PATTERN.exec(ctx.masked)?.[1];
+    if (name === undefined) {
+      continue;
+    }
+    values.push({
+      name,
+      signature: toSignature(ctx.content, start, end),
+      documentation: leadingLineComments(ctx, start, '///'),
+      location: toLocation(ctx, start, end),
+    });
+  }
+
+  return values;
+}
+
+/**
+ * Extracts class information from Dart code
+ */
+function extractClasses(ctx: SourceContext): ExtractorResult['classes'] {
+  const lines = ctx.content.split('\n');
+  const classes: ExtractorResult['classes'] = [];
+
+  // Regex patterns for class detection
+  const classPattern = /^(abstract\s+)?(class|mixin|enum|extension)\s+(\w+)/;
+  const methodPattern =
+    /^\s*(static\s+|final\s+|const\s+|late\s+)*([\w<>\[\]?]+\s+)?(get\s+|set\s+)?(\w+)\s*\(/;
+  const constructorPattern = /^\s*(\w+)\s*\.\s*(\w+)\s*\(/; // Named constructors
+  const getterPattern = /^\s*([\w<>\[\]?]+\s+)?get\s+(\w+)\s*[{=>]/;
+  const setterPattern = /^\s*set\s+(\w+)\s*\(/;
+
+  for (let i = 0; i < lines.length; i++) {
+    const classMatch = maskedLine(ctx, i).match(classPattern);
+    const classStart = lineContentStart(ctx, i);
+    if (classMatch === null || classStart === -1) {
+      continue;
+    }
+
+    const className = classMatch[3];
+    const kind = classMatch[2];
+    if (className === undefined) {
+      continue;
+    }
+
+    const header = findBodyStart(ctx.masked, classStart);
+    const signature = toSignature(ctx.content, classStart, header.index);
+    const documentation = extractDocumentation(lines, i);
+    const methods: ExtractorResult['classes'][0]['methods'] = [];
+    const fields: ExtractorResult['classes'][0]['fields'] = [];
+
+    // The `on` clause of an extension names the extended type, not a supertype
+    const supertypes =
+      kind !== 'extension'
+        ? parseSupertypes(ctx.masked.slice(classStart, header.index), HERITAGE_CLAUSES)
+        : [];
+    // Enum values come first in the body; fields may follow in enhanced enums
+    const enumValues =
+      kind === 'enum' && header.hasBody ? extractEnumValues(ctx, header.index) : [];
+    const lastValue = enumValues[enumValues.length - 1]?.location;
+    // A class without a body, e.g. a mixin application, has no members
+    const bodyClose = header.hasBody ? findMatching(ctx.masked, header.index) : header.index;
+    const lastLine = lineIndexAt(ctx, bodyClose);
+
+    // Members start on lines directly inside the body; the masked text keeps
+    // braces in strings and comments from ending the body early
+    for (let j = lineIndexAt(ctx, header.index) + 1; j <= lastLine; j++) {
+      const memberStart = lineContentStart(ctx, j);
+      const trimmedMethodLine = maskedLine(ctx, j);
+      if (
+        ctx.depths[j] !== depthAt(ctx, header.index) + 1 ||
+        memberStart === -1 ||
+        memberStart >= bodyClose ||
+        trimmedMethodLine === ''
+      ) {
+        continue;
+      }
+
+      // Enum values are reported separately
+      if (lastValue !== undefined && j < lastValue.endLine) {
+        continue;
+      }
+
+      // Check for constructors
+      const constructorMatch =
+        trimmedMethodLine.match(new RegExp(`^${className}\\s*\\(`)) ??
+        trimmedMethodLine.match(constructorPattern);
+      const getterMatch = trimmedMethodLine.match(getterPattern);
+      const setterMatch = trimmedMethodLine.match(setterPattern);
+      const methodMatch = trimmedMethodLine.match(methodPattern);
+
+      if (constructorMatch !== null) {
+        const constructorName = constructorMatch[2] ?? className;
+        methods.push({
+          name: constructorName,
+          signature: declarationSignature(ctx, j),
+          documentation: extractDocumentation(lines, j),
+          location: declarationLocation(ctx, j),
+          visibility: visibilityOf(constructorName),
+        });
+      } else if (getterMatch?.[2] !== undefined) {
+        methods.push({
+          name: `get ${getterMatch[2]}`,
+          signature: declarationSignature(ctx, j),
+          documentation: extractDocumentation(lines, j),
+          location: declarationLocation(ctx, j),
+          visibility: visibilityOf(getterMatch[2]),
+        });
+      } else if (setterMatch?.[1] !== undefined) {
+        methods.push({
+          name: `set ${setterMatch[1]}`,
+          signature: declarationSignature(ctx, j),
+          documentation: extractDocumentation(lines, j),
+          location: declarationLocation(ctx, j),
+          visibility: visibilityOf(setterMatch[1]),
+        });
+      } else if (methodMatch?.[4] !== undefined) {
+        methods.push({
+          name: methodMatch[4],
+          signature: declarationSignature(ctx, j),
+          documentation: extractDocumentation(lines, j),
+          location: declarationLocation(ctx, j),
+          visibility: visibilityOf(methodMatch[4]),
+        });
+      } else {
+        // Fields declared directly in the class body
+        const fieldMatch = trimmedMethodLine.match(FIELD_PATTERN);
+        if (fieldMatch?.[1] !== undefined) {
+          fields.push(extractValue(ctx, lines, j, fieldMatch[1]));
+        }
+      }
+    }
+
+    classes.push({
+      name: className,
+      kind,
+      signature,
+      documentation,
+      location: declarationLocation(ctx, i),
+      visibility: visibilityOf(className),
+      supertypes,
+      methods,
+      fields,
+      enumValues,
+    });
+
+    // Continue after the class body
+    i = lastLine;
+  }
+
+  return classes;
+}
+
+/**
+ * Extracts top-level functions from Dart code
+ */
+function extractFunctions(ctx: SourceContext): ExtractorResult['functions'] {
+  const lines = ctx.content.split('\n');
+  const functions: ExtractorResult['functions'] = [];
+
+  // Regex pattern for function detection
+  const functionPattern = /^([\w<>[\]?]+\s+)?(\w+)\s*\(/;
+
+  for (let i = 0; i < lines.length; i++) {
+    // Only top-level lines; class bodies and function bodies are nested
+    const trimmedLine = maskedLine(ctx, i);
+    if (ctx.depths[i] !== 0 || trimmedLine === '') {
+      continue;
+    }
+
+    // Skip imports, declarations other than functions, and common keywords
+    if (
+      trimmedLine.startsWith('import') ||
+      trimmedLine.startsWith('export') ||
+      trimmedLine.startsWith('part') ||
+      trimmedLine.startsWith('library') ||
+      trimmedLine.startsWith('typedef') ||
+      trimmedLine.startsWith('const ') ||
+      trimmedLine.startsWith('final ') ||
+      trimmedLine.startsWith('var ') ||
+      trimmedLine.includes('class ') ||
+      trimmedLine.includes('enum ') ||
+      trimmedLine.includes('mixin ')
+    ) {
+      continue;
+    }
+
+    const functionMatch = trimmedLine.match(functionPattern);
+
+    if (functionMatch?.[2] !== undefined) {
+      const functionName = functionMatch[2];
+
+      // Skip common false positives
+      if (['if', 'for', 'while', 'switch', 'catch', 'assert'].includes(functionName)) {
+        continue;
+      }
+
+      functions.push({
+        name: functionName,
+        signature: declarationSignature(ctx, i),
+        documentation: extractDocumentation(lines, i),
+        location: declarationLocation(ctx, i),
+        visibility: visibilityOf(functionName),
+      });
+    }
+  }
+
+  return functions;
+}
+
+/**
+ * Extracts top-level `const`, `final` and `var` declarations from Dart code
+ */
+function extractVariables(ctx: SourceContext): CodeSymbol[] {
+  const lines = ctx.content.split('\n');
+  const variables: CodeSymbol[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const start = lineContentStart(ctx, i);
+    if (ctx.depths[i] !== 0 || start === -1) {
+      continue;
+    }
+
+    VARIABLE_PATTERN.lastIndex = start;
+    const variableMatch = VARIABLE_PATTERN.exec(ctx.masked);
+    if (variableMatch?.[1] !== undefined) {
+      variables.push(extractValue(ctx, lines, i, variableMatch[1]));
+    }
+  }
+
+  return variables;
+}
+
+/**
+ * Extracts classes, mixins, enums, extensions and top-level functions from Dart source
+ */
+export function extractDart(content: string): ExtractorResult {
+  const ctx = createSourceContext(content, DART_MASK_OPTIONS);
+  return {
+    classes: extractClasses(ctx),
+    functions: extractFunctions(ctx),
+    variables: extractVariables(ctx),
+  };
+}
+
+/**
+ * Blanks comments and string contents in Dart source, keeping offsets
+ */
+export function maskDart(content: string): string {
+  return maskSource(content, DART_MASK_OPTIONS);
+}
@@ -0,0 +1,197 @@
+import type { CodeSymbol, ExtractedClass, ExtractorResult, Visibility } from '../../types/index.js';
+import {
+  createSourceContext,
+  declarationEnd,
+  findBodyStart,
+  findMatching,
+  leadingBlockComment,
+  leadingLineComments,
+  lineContentStart,
+  parseSupertypes,
+  toLocation,
+  toSignature,
+  type MaskOptions,
+  type SourceContext,
+} from './sourceScanner.js';
+
+const GENERIC_MASK_OPTIONS: MaskOptions = {
+  lineComments: ['//'],
+  blockComment: { open: '/*', close: '*/' },
+  quotes: ["'", '"'],
+};
+
+const MODIFIERS = String.raw`(?:(?:public|private|protected|internal|static|final|abstract|sealed|open|data|export|partial|inline|value|case|override|suspend|async|virtual|extern|unsafe|synchronized)\s+)*`;
+const TYPE_PATTERN = new RegExp(
+  String.raw`${MODIFIERS}(class|interface|struct|enum|trait|object|protocol|record|module)\s+([A-Za-z_$][\w$]*)`,
+  'y'
+);
+const KEYWORD_FUNCTION_PATTERN = new RegExp(
+  String.raw`${MODIFIERS}(?:def|func|function|fun|fn|sub|proc)\s+(?:[\w$]+\.)?([A-Za-z_$][\w$!?]*)`,
+  'y'
+);
+// C-style declarations: one or more type tokens followed by `name(`
+const C_STYLE_FUNCTION_PATTERN = /(?:[\w$<>[\]*&:,?]+\s+)+[*&]?([A-Za-z_~$][\w$]*)\s*\(/y;
+// POSIX shell functions: `name() {`
+const SHELL_FUNCTION_PATTERN = /([A-Za-z_][\w.:-]*)\s*\((?=\s*\)\s*\{)/y;
+
+const HERITAGE_CLAUSES = { extends: 'extends', implements: 'implements' } as const;
+// `#` comments in Ruby, shell, Perl and R; `#include`-style directives are not comments
+const HASH_COMMENT = /^#(?=\s|$)/;
+// Default visibility differs per language, so only explicit modifiers count
+const PRIVATE_MODIFIER = /^(?:\w+\s+)*?private\b/;
+
+const CONTROL_KEYWORDS = new Set([
+  'if',
+  'for',
+  'foreach',
+  'while',
+  'switch',
+  'catch',
+  'return',
+  'new',
+  'else',
+  'throw',
+  'using',
+  'lock',
+  'when',
+]);
+
+const GENERIC_LANGUAGES: Record<string, string> = {
+  '.java': 'java',
+  '.kt': 'kotlin',
+  '.kts': 'kotlin',
+  '.scala': 'scala',
+  '.swift': 'swift',
+  '.rb': 'ruby',
+  '.php': 'php',
+  '.c': 'c',
+  '.h': 'c',
+  '.cc': 'cpp',
+  '.cpp': 'cpp',
+  '.hpp': 'cpp',
+  '.cs': 'csharp',
+  '.m': 'objectivec',
+  '.lua': 'lua',
+  '.sh': 'bash',
+};
+
+/**
+ * Guesses a language id for files without a registered extractor
+ */
+export function guessLanguage(extension: string): string {
+  return GENERIC_LANGUAGES[extension] ?? 'text';
+}
+
+/**
+ * Runs a sticky regex against the masked text at `offset`
+ */
+function matchAt(pattern: RegExp, masked: string, offset: number): RegExpExecArray | null {
+  pattern.lastIndex = offset;
+  return pattern.exec(masked);
+}
+
+/**
+ * Returns `private` for declarations with a private modifier
+ */
+function modifierVisibility(signature: string): Visibility | undefined {
+  return PRIVATE_MODIFIER.test(signature) ? 'private' : undefined;
+}
+
+/**
+ * Returns the doc comment above a declaration: a `/** *\/` block, or `///`
+ * or `#` line comments
+ */
+function leadingDocumentation(ctx: SourceContext, start: number): string | undefined {
+  return (
+    leadingBlockComment(ctx.content, start) ??
+    leadingLineComments(ctx, start, '///') ??
+    leadingLineComments(ctx, start, HASH_COMMENT)
+  );
+}
+
+/**
+ * Produces a best-effort outline of type and function declarations for
+ * languages without a dedicated extractor
+ */
+export function extractGenericOutline(content: string): ExtractorResult {
+  const ctx = createSourceContext(content, GENERIC_MASK_OPTIONS);
+  const { masked } = ctx;
+  const classes: ExtractedClass[] = [];
+  const functions: CodeSymbol[] = [];
+  // Open type bodies, innermost last
+  const typeScopes: Array<{ close: number; cls: ExtractedClass }> = [];
+  let skipUntil = -1;
+
+  for (let line = 0; line < ctx.lineStarts.length; line++) {
+    const start = lineContentStart(ctx, line);
+    if (start === -1 || start < skipUntil) {
+      continue;
+    }
+
+    while (typeScopes.length > 0 && typeScopes[typeScopes.length - 1]!.close < start) {
+      typeScopes.pop();
+    }
+    const owner = typeScopes[typeScopes.length - 1]?.cls;
+
+    const typeMatch = matchAt(TYPE_PATTERN, masked, start);
+    if (typeMatch?.[1] !== undefined && typeMatch[2] !== undefined) {
+      const header = findBodyStart(masked, start + typeMatch[0].length, { endAtNewline: true });
+      const signature = toSignature(content, start, header.index);
+      const cls: ExtractedClass = {
+        name: owner !== undefined ? `${owner.name}.${typeMatch[2]}` : typeMatch[2],
+        kind: typeMatch[1],
+        signature,
+        documentation: leadingDocumentation(ctx, start),
+        location: toLocation(ctx, start, declarationEnd(ctx, header)),
+        visibility: modifierVisibility(signature),
+        supertypes: parseSupertypes(masked.slice(start, header.index), HERITAGE_CLAUSES),
+        methods: [],
+        fields: [],
+        enumValues: [],
+      };
+      classes.push(cls);
+      if (header.hasBody) {
+        typeScopes.push({ close: findMatching(masked, header.index), cls });
+      }
+      continue;
+    }
+
+    const functionMatch =
+      matchAt(KEYWORD_FUNCTION_PATTERN, masked, start) ??
+      matchAt(C_STYLE_FUNCTION_PATTERN, masked, start) ??
+      matchAt(SHELL_FUNCTION_PATTERN, masked, start);
+    const name = functionMatch?.[1];
+    if (functionMatch === null || name === undefined || CONTROL_KEYWORDS.has(name)) {
+      continue;
+    }
+
+    const header = findBodyStart(masked, start + functionMatch[0].length - 1, {
+      endAtNewline: true,
+    });
+    const isKeywordFunction = !functionMatch[0].trimEnd().endsWith('(');
+    if (!header.hasBody && !isKeywordFunction) {
+      // Calls and prototypes look like declarations but have no body
+      continue;
+    }
+
+    const signature = toSignature(content, start, header.index);
+    const symbol: CodeSymbol = {
+      name,
+      signature,
+      documentation: leadingDocumentation(ctx, start),
+      location: toLocation(ctx, start, declarationEnd(ctx, header)),
+      visibility: modifierVisibility(signature),
+    };
+    if (owner !== undefined) {
+      owner.methods.push(symbol);
+    } else {
+      functions.push(symbol);
+    }
+
+    if (header.hasBody) {
+      skipUntil = findMatching(masked, header.index);
+    }
+  }
+
+  return { classes, functions };
+}
@@ -0,0 +1,311 @@
+import type {
+  CodeSymbol,
+  ExtractedClass,
+  ExtractorResult,
+  Supertype,
+  Visibility,
+} from '../../types/index.js';
+import {
+  createSourceContext,
+  declarationEnd,
+  findBodyStart,
+  findMatching,
+  leadingLineComments,
+  lineContentStart,
+  maskSource,
+  memberStarts,
+  toLocation,
+  toSignature,
+  toValueSignature,
+  type MaskOptions,
+  type SourceContext,
+} from './sourceScanner.js';
+
+const GO_MASK_OPTIONS: MaskOptions = {
+  lineComments: ['//'],
+  blockComment: { open: '/*', close: '*/' },
+  quotes: ["'", '"'],
+  rawQuotes: ['`'],
+};
+
+const FUNC_PATTERN = /func\s+(?:\(\s*(?:\w+\s+)?\*?\s*(\w+)(?:\s*\[[^\]]*\])?\s*\)\s*)?(\w+)/y;
+const TYPE_PATTERN = /type\s+/y;
+const TYPE_GROUP_PATTERN = /type\s*\(/y;
+const TYPE_SPEC_PATTERN = /(\w+)(?:\s*\[[^\]]*\])?\s*(=\s*)?(?:(struct|interface)\s*(?=\{))?/y;
+const VALUE_PATTERN = /(const|var)\s+/y;
+const VALUE_GROUP_PATTERN = /(const|var)\s*\(/y;
+const VALUE_SPEC_PATTERN = /\w+(?:\s*,\s*\w+)*/y;
+const STRUCT_FIELD_PATTERN = /(\w+(?:\s*,\s*\w+)*)\s+\S/y;
+const EMBEDDED_PATTERN = /\*?(?:\w+\.)?(\w+)/y;
+const INTERFACE_METHOD_PATTERN = /(\w+)\s*\(/y;
+
+// A brace after these keywords opens a type literal, not a function body
+const TYPE_LITERAL = /\b(?:struct|interface)\s*$/;
+
+/**
+ * Runs a sticky regex against the masked text at `offset`
+ */
+function matchAt(pattern: RegExp, masked: string, offset: number): RegExpExecArray | null {
+  pattern.lastIndex = offset;
+  return pattern.exec(masked);
+}
+
+/**
+ * Returns the original text of the line containing `offset`, from `offset` on
+ */
+function restOfLine(ctx: SourceContext, offset: number): string {
+  const end = ctx.content.indexOf('\n', offset);
+  return ctx.content.slice(offset, end === -1 ? undefined : end).trim();
+}
+
+/**
+ * Identifiers starting with an upper-case letter are exported. For specs that
+ * declare several names, any exported name makes the spec public.
+ */
+function visibilityOf(names: string): Visibility {
+  return /(?:^|,\s*)\p{Lu}/u.test(names) ? 'public' : 'private';
+}
+
+/**
+ * Extracts fields (struct) or methods (interface) from a type literal body.
+ * Embedded types are reported as supertypes, since their members are promoted.
+ */
+function extractTypeMembers(
+  ctx: SourceContext,
+  kind: string,
+  bodyOpen: number
+): { supertypes: Supertype[]; methods: CodeSymbol[]; fields: CodeSymbol[] } {
+  const supertypes: Supertype[] = [];
+  const methods: CodeSymbol[] = [];
+  const fields: CodeSymbol[] = [];
+  const bodyClose = findMatching(ctx.masked, bodyOpen);
+
+  for (const start of memberStarts(ctx, bodyOpen, bodyClose)) {
+    const documentation = leadingLineComments(ctx, start, '//');
+    const signature = restOfLine(ctx, start)
+      .replace(/\s*\/\/.*$/, '')
+      .replace(/\s*\{$/, '');
+    // Nested struct literals extend a field to their closing brace
+    const header = findBodyStart(ctx.masked, start, { endAtNewline: true });
+    const location = toLocation(ctx, start, declarationEnd(ctx, header));
+
+    if (kind === 'interface') {
+      const methodMatch = matchAt(INTERFACE_METHOD_PATTERN, ctx.masked, start);
+      if (methodMatch?.[1] !== undefined) {
+        methods.push({
+          name: methodMatch[1],
+          signature,
+          documentation,
+          location,
+          visibility: visibilityOf(methodMatch[1]),
+        });
+        continue;
+      }
+    }
+
+    const fieldMatch = kind === 'struct' ? matchAt(STRUCT_FIELD_PATTERN, ctx.masked, start) : null;
+    const embedded =
+      fieldMatch === null ? matchAt(EMBEDDED_PATTERN, ctx.masked, start)?.[1] : undefined;
+    if (embedded !== undefined) {
+      supertypes.push({ name: embedded, relation: 'extends' });
+    }
+    const name = fieldMatch?.[1] ?? embedded;
+    if (name !== undefined) {
+      fields.push({ name, signature, documentation, location, visibility: visibilityOf(name) });
+    }
+  }
+
+  return { supertypes, methods, fields };
+}
+
+/**
+ * Extracts a single type spec (`Name struct {...}`, `Name = Other`, ...)
+ */
+function extractTypeSpec(
+  ctx: SourceContext,
+  declStart: number,
+  specStart: number
+): ExtractedClass | null {
+  const spec = matchAt(TYPE_SPEC_PATTERN, ctx.masked, specStart);
+  if (spec?.[1] === undefined) {
+    return null;
+  }
+
+  const documentation = leadingLineComments(ctx, declStart, '//');
+  const literalKind = spec[3];
+
+  if (literalKind !== undefined) {
+    const bodyOpen = ctx.masked.indexOf('{', specStart + spec[0].length);
+    return {
+      name: spec[1],
+      kind: literalKind,
+      signature: toSignature(ctx.content, declStart, bodyOpen),
+      documentation,
+      location: toLocation(ctx, declStart, findMatching(ctx.masked, bodyOpen) + 1),
+      visibility: visibilityOf(spec[1]),
+      ...extractTypeMembers(ctx, literalKind, bodyOpen),
+      enumValues: [],
+    };
+  }
+
+  const end = findBodyStart(ctx.masked, specStart + spec[0].length, {
+    endAtNewline: true,
+    skipBraceAfter: TYPE_LITERAL,
+  });
+  return {
+    name: spec[1],
+    kind: 'type',
+    signature: toSignature(ctx.content, declStart, end.index),
+    documentation,
+    location: toLocation(ctx, declStart, declarationEnd(ctx, end)),
+    visibility: visibilityOf(spec[1]),
+    supertypes: [],
+    methods: [],
+    fields: [],
+    enumValues: [],
+  };
+}
+
+/**
+ * Extracts a single `const` or `var` spec (`Name Type = value`)
+ */
+function extractValueSpec(
+  ctx: SourceContext,
+  keyword: string,
+  declStart: number,
+  specStart: number
+): CodeSymbol | null {
+  const name = matchAt(VALUE_SPEC_PATTERN, ctx.masked, specStart)?.[0];
+  if (name === undefined || name === '_') {
+    return null;
+  }
+
+  const end = declarationEnd(ctx, findBodyStart(ctx.masked, specStart, { endAtNewline: true }));
+  const signature = toValueSignature(ctx.content, declStart, end);
+  return {
+    name,
+    // Specs inside a group don't repeat the keyword
+    signature: declStart === specStart ? `${keyword} ${signature}` : signature,
+    documentation: leadingLineComments(ctx, declStart, '//'),
+    location: toLocation(ctx, declStart, end),
+    visibility: visibilityOf(name),
+  };
+}
+
+/**
+ * Extracts functions, struct and interface types, methods grouped under
+ * their receiver type, and package-level constants and variables from Go source
+ */
+export function extractGo(content: string): ExtractorResult {
+  const ctx = createSourceContext(content, GO_MASK_OPTIONS);
+  const { masked } = ctx;
+  const types = new Map<string, ExtractedClass>();
+  const functions: CodeSymbol[] = [];
+  const variables: CodeSymbol[] = [];
+  const methodsByReceiver = new Map<string, CodeSymbol[]>();
+
+  const addType = (type: ExtractedClass | null): void => {
+    if (type !== null && !types.has(type.name)) {
+      types.set(type.name, type);
+    }
+  };
+
+  for (let line = 0; line < ctx.lineStarts.length; line++) {
+    if (ctx.depths[line] !== 0) {
+      continue;
+    }
+
+    const start = lineContentStart(ctx, line);
+    if (start === -1) {
+      continue;
+    }
+
+    const funcMatch = matchAt(FUNC_PATTERN, masked, start);
+    if (funcMatch?.[2] !== undefined) {
+      const header = findBodyStart(masked, start + funcMatch[0].length, {
+        endAtNewline: true,
+        skipBraceAfter: TYPE_LITERAL,
+      });
+      const symbol: CodeSymbol = {
+        name: funcMatch[2],
+        signature: toSignature(content, start, header.index),
+        documentation: leadingLineComments(ctx, start, '//'),
+        location: toLocation(ctx, start, declarationEnd(ctx, header)),
+        visibility: visibilityOf(funcMatch[2]),
+      };
+
+      const receiver = funcMatch[1];
+      if (receiver !== undefined) {
+        const methods = methodsByReceiver.get(receiver) ?? [];
+        methods.push(symbol);
+        methodsByReceiver.set(receiver, methods);
+      } else {
+        functions.push(symbol);
+      }
+      continue;
+    }
+
+    const groupMatch = matchAt(TYPE_GROUP_PATTERN, masked, start);
+    if (groupMatch !== null) {
+      const groupOpen = start + groupMatch[0].length - 1;
+      for (const specStart of memberStarts(ctx, groupOpen, findMatching(masked, groupOpen))) {
+        addType(extractTypeSpec(ctx, specStart, specStart));
+      }
+      continue;
+    }
+
+    const typeMatch = matchAt(TYPE_PATTERN, masked, start);
+    if (typeMatch !== null) {
+      addType(extractTypeSpec(ctx, start, start + typeMatch[0].length));
+      continue;
+    }
+
+    const valueGroupMatch = matchAt(VALUE_GROUP_PATTERN, masked, start);
+    if (valueGroupMatch?.[1] !== undefined) {
+      const groupOpen = start + valueGroupMatch[0].length - 1;
+      for (const specStart of memberStarts(ctx, groupOpen, findMatching(masked, groupOpen))) {
+        const spec = extractValueSpec(ctx, valueGroupMatch[1], specStart, specStart);
+        if (spec !== null) {
+          variables.push(spec);
+        }
+      }
+      continue;
+    }
+
+    const valueMatch = matchAt(VALUE_PATTERN, masked, start);
+    if (valueMatch?.[1] !== undefined) {
+      const spec = extractValueSpec(ctx, valueMatch[1], start, start + valueMatch[0].length);
+      if (spec !== null) {
+        variables.push(spec);
+      }
+    }
+  }
+
+  // Attach methods to their receiver types, which may live in another file
+  for (const [receiver, methods] of methodsByReceiver) {
+    const type = types.get(receiver);
+    if (type !== undefined) {
+      type.methods.push(...methods);
+    } else {
+      types.set(receiver, {
+        name: receiver,
+        kind: 'type',
+        signature: `type ${receiver}`,
+        visibility: visibilityOf(receiver),
+        supertypes: [],
+        methods,
+        fields: [],
+        enumValues: [],
+      });
+    }
+  }
+
+  return { classes: Array.from(types.values()), functions, variables };
+}
+
+/**
+ * Blanks comments and string contents in Go source, keeping offsets
+ */
+export function maskGo(content: string): string {
+  return maskSource(content, GO_MASK_OPTIONS);
+}
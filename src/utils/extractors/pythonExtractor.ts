@@ -0,0 +1,347 @@
+import type {
+  CodeSymbol,
+  ExtractedClass,
+  ExtractorResult,
+  Supertype,
+  Visibility,
+} from '../../types/index.js';
+import {
+  createSourceContext,
+  findMatching,
+  leadingLineComments,
+  lineContentStart,
+  lineIndexAt,
+  maskSource,
+  simpleTypeName,
+  splitTopLevel,
+  toLocation,
+  toSignature,
+  toValueSignature,
+  trimmedEnd,
+  type MaskOptions,
+  type SourceContext,
+} from './sourceScanner.js';
+
+const PYTHON_MASK_OPTIONS: MaskOptions = {
+  lineComments: ['#'],
+  quotes: ["'", '"'],
+  tripleQuotes: true,
+  maskDelimiters: true,
+};
+
+const CLASS_PATTERN = /class\s+([A-Za-z_]\w*)/y;
+const FUNCTION_PATTERN = /(?:async\s+)?def\s+([A-Za-z_]\w*)/y;
+const DOCSTRING_PATTERN = /(?:[rRuU]|[bB][rR]?|[rR][bB])?("""|'''|"|')/y;
+// `name = value`, `name: type = value` or a bare `name: type` annotation
+const ASSIGNMENT_PATTERN = /([A-Za-z_]\w*)\s*(:[^=\n]*)?(?:=(?!=)|$)/my;
+const ENUM_BASE = /\((?:[^)]*[\s,.])?(?:Int|Str)?(?:Enum|Flag)\b/;
+const CONSTANT_NAME = /^[A-Z][A-Z0-9_]*$/;
+const KEYWORDS = new Set(['else', 'try', 'finally', 'except', 'lambda', 'pass', 'case', 'match']);
+
+interface Scope {
+  indent: number;
+  /** Set for classes whose members are reported */
+  cls?: ExtractedClass;
+}
+
+/**
+ * Returns the offset just past the end of the logical line starting at
+ * `offset`, following brackets that span several lines
+ */
+function logicalLineEnd(ctx: SourceContext, offset: number): number {
+  let i = offset;
+  while (i < ctx.masked.length && ctx.masked[i] !== '\n') {
+    const ch = ctx.masked[i]!;
+    if ('([{'.includes(ch)) {
+      i = findMatching(ctx.masked, i);
+    }
+    i++;
+  }
+  return i;
+}
+
+/**
+ * Finds the colon that terminates a `def` or `class` header
+ */
+function findHeaderColon(ctx: SourceContext, from: number): number {
+  let i = from;
+  while (i < ctx.masked.length) {
+    const ch = ctx.masked[i]!;
+    if ('([{'.includes(ch)) {
+      i = findMatching(ctx.masked, i) + 1;
+      continue;
+    }
+    if (ch === ':' || ch === '\n') {
+      return i;
+    }
+    i++;
+  }
+  return ctx.masked.length;
+}
+
+/**
+ * Returns the end offset (exclusive) of the indented block whose header
+ * colon is at `colon` and whose header is indented by `indent`
+ */
+function blockEnd(ctx: SourceContext, colon: number, indent: number): number {
+  let end = logicalLineEnd(ctx, colon);
+
+  for (let line = lineIndexAt(ctx, end) + 1; line < ctx.lineStarts.length; line++) {
+    const lineStart = ctx.lineStarts[line]!;
+    const lineEnd = ctx.lineStarts[line + 1] ?? ctx.masked.length;
+    const start = lineContentStart(ctx, line);
+
+    if (start === -1) {
+      // Blank, a comment, or text inside a multi-line string
+      const text = ctx.content.slice(lineStart, lineEnd).trim();
+      if (text === '' || text.startsWith('#')) {
+        continue;
+      }
+      // The masked text is blank here, so measure the string's own content
+      end = lineStart + ctx.content.slice(lineStart, lineEnd).trimEnd().length;
+      continue;
+    } else if (ctx.depths[line] === 0 && start - lineStart <= indent) {
+      break;
+    }
+
+    end = trimmedEnd(ctx, lineEnd);
+  }
+
+  return end;
+}
+
+/**
+ * Returns the base classes listed after a class name, ignoring keyword
+ * arguments such as `metaclass=...`
+ */
+function classBases(ctx: SourceContext, afterName: number): Supertype[] {
+  let open = afterName;
+  while (open < ctx.masked.length && /[ \t]/.test(ctx.masked[open]!)) {
+    open++;
+  }
+  if (ctx.masked[open] !== '(') {
+    return [];
+  }
+
+  const bases: Supertype[] = [];
+  for (const base of splitTopLevel(ctx.masked.slice(open + 1, findMatching(ctx.masked, open)))) {
+    const name = base.includes('=') || base.startsWith('*') ? undefined : simpleTypeName(base);
+    if (name !== undefined && name !== 'object') {
+      bases.push({ name, relation: 'extends' });
+    }
+  }
+  return bases;
+}
+
+/**
+ * Removes common indentation from a docstring, like `inspect.cleandoc`
+ */
+function cleanDocstring(docstring: string): string | undefined {
+  const lines = docstring.replace(/\t/g, '    ').split('\n');
+  const indents = lines
+    .slice(1)
+    .filter((line) => line.trim() !== '')
+    .map((line) => line.length - line.trimStart().length);
+  const margin = indents.length > 0 ? Math.min(...indents) : 0;
+  const cleaned = [lines[0]!.trim(), ...lines.slice(1).map((line) => line.slice(margin).trimEnd())];
+
+  while (cleaned.length > 0 && cleaned[0] === '') {
+    cleaned.shift();
+  }
+  while (cleaned.length > 0 && cleaned[cleaned.length - 1] === '') {
+    cleaned.pop();
+  }
+
+  return cleaned.length > 0 ? cleaned.join('\n') : undefined;
+}
+
+/**
+ * Extracts the docstring that opens the body following a header colon
+ */
+function extractDocstring(ctx: SourceContext, colon: number): string | undefined {
+  const lineEnd = ctx.masked.indexOf('\n', colon);
+  if (lineEnd === -1 || ctx.masked.slice(colon + 1, lineEnd).trim() !== '') {
+    // One-line body such as `def f(): pass`
+    return undefined;
+  }
+
+  let i = lineEnd;
+  while (i < ctx.content.length && /\s/.test(ctx.content[i]!)) {
+    i++;
+  }
+
+  DOCSTRING_PATTERN.lastIndex = i;
+  const match = DOCSTRING_PATTERN.exec(ctx.content);
+  if (match?.[1] === undefined) {
+    return undefined;
+  }
+
+  const quote = match[1];
+  const bodyStart = i + match[0].length;
+  const bodyEnd = ctx.content.indexOf(quote, bodyStart);
+  if (bodyEnd === -1) {
+    return undefined;
+  }
+
+  return cleanDocstring(ctx.content.slice(bodyStart, bodyEnd));
+}
+
+/**
+ * Derives the reported method name, naming properties like Dart accessors
+ */
+function methodName(name: string, decorators: string[]): string {
+  for (const decorator of decorators) {
+    if (/^@(?:functools\.)?(?:cached_)?property\b/.test(decorator)) {
+      return `get ${name}`;
+    }
+    const accessor = /^@(\w+)\.(setter|deleter)\b/.exec(decorator);
+    if (accessor !== null) {
+      return `${accessor[2] === 'setter' ? 'set' : 'delete'} ${accessor[1]}`;
+    }
+  }
+  return name;
+}
+
+/**
+ * Names with a leading underscore are private by convention; dunder names
+ * such as `__init__` are part of the public protocol
+ */
+function visibilityOf(name: string): Visibility {
+  return name.startsWith('_') && !/^__\w+__$/.test(name) ? 'private' : 'public';
+}
+
+/**
+ * Extracts classes, methods, attributes, functions and module-level constants
+ * from Python source using indentation
+ */
+export function extractPython(content: string): ExtractorResult {
+  const ctx = createSourceContext(content, PYTHON_MASK_OPTIONS);
+  const classes: ExtractedClass[] = [];
+  const functions: CodeSymbol[] = [];
+  const variables: CodeSymbol[] = [];
+  const scopes: Scope[] = [];
+  let decorators: string[] = [];
+  let decoratorStart: number | undefined;
+
+  for (let line = 0; line < ctx.lineStarts.length; line++) {
+    if (ctx.depths[line] !== 0) {
+      continue;
+    }
+
+    const start = lineContentStart(ctx, line);
+    if (start === -1) {
+      continue;
+    }
+
+    const indent = start - ctx.lineStarts[line]!;
+    while (scopes.length > 0 && scopes[scopes.length - 1]!.indent >= indent) {
+      scopes.pop();
+    }
+
+    if (ctx.masked[start] === '@') {
+      decorators.push(toSignature(content, start, logicalLineEnd(ctx, start)));
+      decoratorStart ??= start;
+      continue;
+    }
+
+    const parent = scopes[scopes.length - 1];
+    const pendingDecorators = decorators;
+    const declStart = decoratorStart ?? start;
+    decorators = [];
+    decoratorStart = undefined;
+    // Definitions nested in functions are implementation details
+    const nested = parent !== undefined && parent.cls === undefined;
+
+    CLASS_PATTERN.lastIndex = start;
+    const classMatch = CLASS_PATTERN.exec(ctx.masked);
+    if (classMatch?.[1] !== undefined) {
+      const colon = findHeaderColon(ctx, start + classMatch[0].length);
+      if (nested) {
+        scopes.push({ indent });
+        continue;
+      }
+
+      const cls: ExtractedClass = {
+        name: parent?.cls !== undefined ? `${parent.cls.name}.${classMatch[1]}` : classMatch[1],
+        kind: 'class',
+        signature: [...pendingDecorators, toSignature(content, start, colon)].join(' '),
+        documentation: extractDocstring(ctx, colon),
+        location: toLocation(ctx, declStart, blockEnd(ctx, colon, indent)),
+        // Classes nested in a private class are private too
+        visibility: parent?.cls?.visibility === 'private' ? 'private' : visibilityOf(classMatch[1]),
+        supertypes: classBases(ctx, start + classMatch[0].length),
+        methods: [],
+        fields: [],
+        enumValues: [],
+      };
+      classes.push(cls);
+      scopes.push({ indent, cls });
+      continue;
+    }
+
+    FUNCTION_PATTERN.lastIndex = start;
+    const functionMatch = FUNCTION_PATTERN.exec(ctx.masked);
+    if (functionMatch?.[1] !== undefined) {
+      scopes.push({ indent });
+      if (nested) {
+        continue;
+      }
+
+      const colon = findHeaderColon(ctx, start + functionMatch[0].length);
+      const symbol: CodeSymbol = {
+        name: functionMatch[1],
+        signature: [...pendingDecorators, toSignature(content, start, colon)].join(' '),
+        documentation: extractDocstring(ctx, colon),
+        location: toLocation(ctx, declStart, blockEnd(ctx, colon, indent)),
+        visibility: visibilityOf(functionMatch[1]),
+      };
+
+      if (parent?.cls !== undefined) {
+        parent.cls.methods.push({ ...symbol, name: methodName(symbol.name, pendingDecorators) });
+      } else {
+        functions.push(symbol);
+      }
+      continue;
+    }
+
+    if (nested) {
+      continue;
+    }
+
+    ASSIGNMENT_PATTERN.lastIndex = start;
+    const assignment = ASSIGNMENT_PATTERN.exec(ctx.masked);
+    const name = assignment?.[1];
+    if (assignment === null || name === undefined || KEYWORDS.has(name) || /^__\w+__$/.test(name)) {
+      continue;
+    }
+
+    const end = logicalLineEnd(ctx, start);
+    const symbol: CodeSymbol = {
+      name,
+      signature: toValueSignature(content, start, end),
+      documentation: leadingLineComments(ctx, start, '#'),
+      location: toLocation(ctx, start, trimmedEnd(ctx, end)),
+      visibility: visibilityOf(name),
+    };
+
+    if (parent?.cls !== undefined) {
+      if (ENUM_BASE.test(parent.cls.signature)) {
+        parent.cls.enumValues.push(symbol);
+      } else {
+        parent.cls.fields.push(symbol);
+      }
+    } else if (CONSTANT_NAME.test(name) || assignment[2] !== undefined) {
+      // Module-level constants by convention, or annotated declarations
+      variables.push(symbol);
+    }
+  }
+
+  return { classes, functions, variables };
+}
+
+/**
+ * Blanks comments and string contents in Python source, keeping offsets
+ */
+export function maskPython(content: string): string {
+  return maskSource(content, PYTHON_MASK_OPTIONS);
+}
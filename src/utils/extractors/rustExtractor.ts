@@ -0,0 +1,368 @@
+import type {
+  CodeSymbol,
+  ExtractedClass,
+  ExtractorResult,
+  Supertype,
+  Visibility,
+} from '../../types/index.js';
+import {
+  createSourceContext,
+  declarationEnd,
+  findBodyStart,
+  findMatching,
+  leadingLineComments,
+  lineContentStart,
+  listItems,
+  maskSource,
+  memberStarts,
+  simpleTypeName,
+  splitTopLevel,
+  toLocation,
+  toSignature,
+  toValueSignature,
+  trimmedEnd,
+  type MaskOptions,
+  type SourceContext,
+} from './sourceScanner.js';
+
+const RUST_MASK_OPTIONS: MaskOptions = {
+  lineComments: ['//'],
+  blockComment: { open: '/*', close: '*/', nested: true },
+  quotes: ["'"],
+  multilineQuotes: ['"'],
+  rawStrings: true,
+  charLiterals: true,
+};
+
+const VISIBILITY = String.raw`(?:pub(?:\s*\([^)]*\))?\s+)?`;
+const ITEM_PATTERN = new RegExp(
+  String.raw`${VISIBILITY}(?:(?:default|unsafe|async|const|extern(?:\s+"[^"]*")?)\s+)*(struct|enum|union|trait|fn|impl|type)\b\s*(\w+)?`,
+  'y'
+);
+const FIELD_PATTERN = new RegExp(String.raw`${VISIBILITY}(\w+)\s*:`, 'y');
+const VALUE_PATTERN = new RegExp(
+  String.raw`${VISIBILITY}(?:const|static)\s+(?:mut\s+)?(\w+)\s*:`,
+  'y'
+);
+const VARIANT_PATTERN = /\w+/y;
+
+// Attributes such as #[derive(Debug)] may sit between docs and an item
+const ATTRIBUTE_LINE = /^#!?\[/;
+
+/**
+ * Runs a sticky regex against the masked text at `offset`
+ */
+function matchAt(pattern: RegExp, masked: string, offset: number): RegExpExecArray | null {
+  pattern.lastIndex = offset;
+  return pattern.exec(masked);
+}
+
+/**
+ * Only items marked with a bare `pub` are part of the crate's public API;
+ * restricted forms such as `pub(crate)` are not
+ */
+function visibilityOf(signature: string): Visibility {
+  return /^pub\s/.test(signature) ? 'public' : 'private';
+}
+
+/**
+ * Returns the type an `impl` header applies to and the trait it implements,
+ * e.g. `Foo` and `Display` for `impl<T: Clone> Display for foo::Foo<T> where T: Debug`
+ */
+function parseImplHeader(header: string): { target?: string; trait?: string } {
+  let text = header.replace(/^impl\s*/, '');
+
+  // Drop leading generic parameters, which may nest angle brackets
+  if (text.startsWith('<')) {
+    let depth = 0;
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === '<') {
+        depth++;
+      } else if (text[i] === '>' && text[i - 1] !== '-') {
+        depth--;
+        if (depth === 0) {
+          text = text.slice(i + 1);
+          break;
+        }
+      }
+    }
+  }
+
+  text = text.replace(/\bwhere\b[\s\S]*$/, '');
+  const forMatch = /\bfor\s+([\s\S]+)$/.exec(text);
+  const selfType = (forMatch?.[1] ?? text).replace(/<[\s\S]*$/, '').trim();
+  const name = /(\w+)\s*$/.exec(selfType.replace(/^(?:&\s*(?:mut\s+)?|dyn\s+)+/, ''));
+  const trait =
+    forMatch !== null ? simpleTypeName(text.slice(0, forMatch.index).replace(/^!/, '')) : undefined;
+
+  return { target: name?.[1], trait };
+}
+
+/**
+ * Returns the supertraits in a trait header following the trait name, such
+ * as `: Clone + fmt::Debug where Self: Sized`
+ */
+function supertraits(masked: string, from: number, to: number): Supertype[] {
+  let start = from;
+  while (start < to && /\s/.test(masked[start]!)) {
+    start++;
+  }
+  if (masked[start] === '<') {
+    start = skipGroup(masked, start);
+  }
+
+  const bounds = masked.slice(start, to).trim();
+  if (!bounds.startsWith(':')) {
+    return [];
+  }
+
+  const supertypes: Supertype[] = [];
+  for (const bound of splitTopLevel(bounds.slice(1).replace(/\bwhere\b[\s\S]*$/, ''), '+')) {
+    const name = /^[?']/.test(bound) ? undefined : simpleTypeName(bound);
+    if (name !== undefined) {
+      supertypes.push({ name, relation: 'extends' });
+    }
+  }
+  return supertypes;
+}
+
+/**
+ * Extracts the functions declared in a trait or impl body. Trait items and
+ * trait impls take the trait's visibility, passed as `inherited`.
+ */
+function extractBodyFunctions(
+  ctx: SourceContext,
+  bodyOpen: number,
+  inherited?: Visibility
+): CodeSymbol[] {
+  const methods: CodeSymbol[] = [];
+
+  for (const start of memberStarts(ctx, bodyOpen, findMatching(ctx.masked, bodyOpen))) {
+    const item = matchAt(ITEM_PATTERN, ctx.masked, start);
+    if (item?.[1] !== 'fn' || item[2] === undefined) {
+      continue;
+    }
+
+    const header = findBodyStart(ctx.masked, start + item[0].length);
+    const signature = toSignature(ctx.content, start, header.index);
+    methods.push({
+      name: item[2],
+      signature,
+      documentation: leadingLineComments(ctx, start, '///', ATTRIBUTE_LINE),
+      location: toLocation(ctx, start, declarationEnd(ctx, header)),
+      visibility: inherited ?? visibilityOf(signature),
+    });
+  }
+
+  return methods;
+}
+
+/**
+ * Extracts the named fields of a struct body
+ */
+function extractFields(ctx: SourceContext, bodyOpen: number): CodeSymbol[] {
+  const fields: CodeSymbol[] = [];
+  const bodyClose = findMatching(ctx.masked, bodyOpen);
+
+  for (const start of memberStarts(ctx, bodyOpen, bodyClose)) {
+    const field = matchAt(FIELD_PATTERN, ctx.masked, start);
+    if (field?.[1] === undefined) {
+      continue;
+    }
+
+    // A field runs to the next top-level comma or the end of the body
+    let end = start;
+    while (end < bodyClose && ctx.masked[end] !== ',') {
+      end = '([{<'.includes(ctx.masked[end]!) ? skipGroup(ctx.masked, end) : end + 1;
+    }
+
+    const signature = toSignature(ctx.content, start, end);
+    fields.push({
+      name: field[1],
+      signature,
+      documentation: leadingLineComments(ctx, start, '///', ATTRIBUTE_LINE),
+      location: toLocation(ctx, start, trimmedEnd(ctx, end)),
+      visibility: visibilityOf(signature),
+    });
+  }
+
+  return fields;
+}
+
+/**
+ * Skips attributes such as `#[default]` in front of an item
+ */
+function skipAttributes(masked: string, offset: number): number {
+  let i = offset;
+  while (masked[i] === '#' && masked[i + 1] === '[') {
+    i = findMatching(masked, i + 1) + 1;
+    while (/\s/.test(masked[i] ?? '')) {
+      i++;
+    }
+  }
+  return i;
+}
+
+/**
+ * Extracts the variants of an enum body
+ */
+function extractVariants(ctx: SourceContext, bodyOpen: number): CodeSymbol[] {
+  const variants: CodeSymbol[] = [];
+
+  for (const { start, end } of listItems(ctx, bodyOpen, findMatching(ctx.masked, bodyOpen))) {
+    const name = matchAt(VARIANT_PATTERN, ctx.masked, skipAttributes(ctx.masked, start))?.[0];
+    if (name === undefined) {
+      continue;
+    }
+    variants.push({
+      name,
+      signature: toSignature(ctx.content, start, end),
+      documentation: leadingLineComments(ctx, start, '///', ATTRIBUTE_LINE),
+      location: toLocation(ctx, start, end),
+    });
+  }
+
+  return variants;
+}
+
+/**
+ * Skips a bracketed group, including generic angle brackets
+ */
+function skipGroup(masked: string, open: number): number {
+  if (masked[open] !== '<') {
+    return findMatching(masked, open) + 1;
+  }
+
+  let depth = 0;
+  for (let i = open; i < masked.length; i++) {
+    if (masked[i] === '<') {
+      depth++;
+    } else if (masked[i] === '>' && masked[i - 1] !== '-') {
+      depth--;
+      if (depth === 0) {
+        return i + 1;
+      }
+    }
+  }
+  return masked.length;
+}
+
+/**
+ * Extracts structs, enums, traits, impl methods, functions, constants and
+ * statics from Rust source
+ */
+export function extractRust(content: string): ExtractorResult {
+  const ctx = createSourceContext(content, RUST_MASK_OPTIONS);
+  const { masked } = ctx;
+  const types = new Map<string, ExtractedClass>();
+  const functions: CodeSymbol[] = [];
+  const variables: CodeSymbol[] = [];
+  const implMethods: Array<{ target: string; trait?: string; methods: CodeSymbol[] }> = [];
+
+  for (let line = 0; line < ctx.lineStarts.length; line++) {
+    if (ctx.depths[line] !== 0) {
+      continue;
+    }
+
+    const start = lineContentStart(ctx, line);
+    if (start === -1) {
+      continue;
+    }
+
+    const value = matchAt(VALUE_PATTERN, masked, start);
+    if (value?.[1] !== undefined) {
+      const end = declarationEnd(ctx, findBodyStart(masked, start + value[0].length));
+      const signature = toValueSignature(content, start, end);
+      variables.push({
+        name: value[1],
+        signature,
+        documentation: leadingLineComments(ctx, start, '///', ATTRIBUTE_LINE),
+        location: toLocation(ctx, start, end),
+        visibility: visibilityOf(signature),
+      });
+      continue;
+    }
+
+    const item = matchAt(ITEM_PATTERN, masked, start);
+    if (item?.[1] === undefined) {
+      continue;
+    }
+
+    const [, keyword, name] = item;
+    const header = findBodyStart(masked, start + item[0].length);
+    const signature = toSignature(content, start, header.index);
+    const documentation = leadingLineComments(ctx, start, '///', ATTRIBUTE_LINE);
+    const location = toLocation(ctx, start, declarationEnd(ctx, header));
+    const visibility = visibilityOf(signature);
+
+    if (keyword === 'impl') {
+      const { target, trait } = parseImplHeader(signature.replace(/^.*?\bimpl\b/, 'impl'));
+      if (target !== undefined && header.hasBody) {
+        // Trait impl methods are as visible as the trait, which is usually public
+        const methods = extractBodyFunctions(
+          ctx,
+          header.index,
+          trait !== undefined ? 'public' : undefined
+        );
+        implMethods.push({ target, trait, methods });
+      }
+      continue;
+    }
+
+    if (name === undefined) {
+      continue;
+    }
+
+    if (keyword === 'fn') {
+      functions.push({ name, signature, documentation, location, visibility });
+      continue;
+    }
+
+    types.set(name, {
+      name,
+      kind: keyword,
+      signature,
+      documentation,
+      location,
+      visibility,
+      supertypes:
+        keyword === 'trait' ? supertraits(masked, start + item[0].length, header.index) : [],
+      methods:
+        keyword === 'trait' && header.hasBody
+          ? extractBodyFunctions(ctx, header.index, visibility)
+          : [],
+      fields: keyword === 'struct' && header.hasBody ? extractFields(ctx, header.index) : [],
+      enumValues: keyword === 'enum' && header.hasBody ? extractVariants(ctx, header.index) : [],
+    });
+  }
+
+  // Map impl blocks onto their types, which may be declared in another module
+  for (const { target, trait, methods } of implMethods) {
+    const implemented: Supertype[] =
+      trait !== undefined ? [{ name: trait, relation: 'implements' }] : [];
+    const type = types.get(target);
+    if (type !== undefined) {
+      type.methods.push(...methods);
+      type.supertypes.push(...implemented);
+    } else {
+      types.set(target, {
+        name: target,
+        kind: 'impl',
+        signature: `impl ${target}`,
+        supertypes: implemented,
+        methods,
+        fields: [],
+        enumValues: [],
+      });
+    }
+  }
+
+  return { classes: Array.from(types.values()), functions, variables };
+}
+
+/**
+ * Blanks comments and string contents in Rust source, keeping offsets
+ */
+export function maskRust(content: string): string {
+  return maskSource(content, RUST_MASK_OPTIONS);
+}
@@ -0,0 +1,748 @@
+import type { SourceLocation, Supertype } from '../../types/index.js';
+
+/**
+ * Options describing the lexical structure of a language for masking
+ */
+export interface MaskOptions {
+  /** Tokens that start a comment running to the end of the line */
+  lineComments: string[];
+  /** Delimiters of block comments */
+  blockComment?: { open: string; close: string; nested?: boolean };
+  /** Quote characters whose literals end at the line break */
+  quotes: string[];
+  /** Quote characters whose literals may span lines */
+  multilineQuotes?: string[];
+  /** Quote characters without escape sequences (e.g. Go raw strings) */
+  rawQuotes?: string[];
+  /** Recognise `'''` and `"""` literals (Dart, Python) */
+  tripleQuotes?: boolean;
+  /** Recognise Rust raw strings such as r"..." and r#"..."# */
+  rawStrings?: boolean;
+  /** Only treat `'` as a quote when it forms a character literal (Rust lifetimes) */
+  charLiterals?: boolean;
+  /** Treat backticks as JS template literals with `${}` substitutions */
+  templateLiterals?: boolean;
+  /** Recognise JS regex literals */
+  regexLiterals?: boolean;
+  /** Blank the quote characters too, so lines inside literals read as empty */
+  maskDelimiters?: boolean;
+}
+
+/**
+ * Pre-computed view of a source file used by the brace-based extractors
+ */
+export interface SourceContext {
+  content: string;
+  masked: string;
+  lineStarts: number[];
+  /** Bracket nesting depth at the start of each line */
+  depths: number[];
+}
+
+const OPENERS = '{([';
+const CLOSERS = '})]';
+
+const REGEX_PRECEDERS = new Set('(,=:[!&|?{};+-*%<>~^'.split(''));
+const REGEX_KEYWORDS = new Set([
+  'return',
+  'typeof',
+  'case',
+  'in',
+  'of',
+  'delete',
+  'void',
+  'throw',
+  'new',
+  'else',
+  'do',
+  'yield',
+  'await',
+]);
+
+/**
+ * Replaces comments and the contents of string literals with spaces so that
+ * brackets inside them do not affect structural scanning. Line breaks are
+ * preserved, so offsets in the masked text match the original content.
+ */
+export function maskSource(content: string, options: MaskOptions): string {
+  const out = content.split('');
+  const length = content.length;
+  const templateStack: number[] = [];
+  let braceDepth = 0;
+  let lastSignificant = '';
+  let lastWord = '';
+  let i = 0;
+
+  const blank = (from: number, to: number): void => {
+    for (let k = from; k < to && k < length; k++) {
+      if (out[k] !== '\n' && out[k] !== '\r') {
+        out[k] = ' ';
+      }
+    }
+  };
+
+  // Scans template literal text starting at `start`, returning the index where code resumes
+  const scanTemplate = (start: number): number => {
+    let k = start;
+    while (k < length) {
+      const c = content[k];
+      if (c === '\\') {
+        k += 2;
+      } else if (c === '`') {
+        blank(start, k);
+        return k + 1;
+      } else if (c === '$' && content[k + 1] === '{') {
+        blank(start, k + 2);
+        templateStack.push(braceDepth);
+        return k + 2;
+      } else {
+        k++;
+      }
+    }
+    blank(start, length);
+    return length;
+  };
+
+  // Scans a quoted literal whose opening delimiter spans `open` to `start`
+  const scanQuoted = (
+    open: number,
+    start: number,
+    close: string,
+    escapes: boolean,
+    multiline: boolean
+  ): number => {
+    const blankFrom = options.maskDelimiters === true ? open : start;
+    let k = start;
+    while (k < length) {
+      const c = content[k];
+      if (escapes && c === '\\') {
+        k += 2;
+        continue;
+      }
+      if (!multiline && c === '\n') {
+        break;
+      }
+      if (content.startsWith(close, k)) {
+        blank(blankFrom, options.maskDelimiters === true ? k + close.length : k);
+        return k + close.length;
+      }
+      k++;
+    }
+    blank(blankFrom, k);
+    return k;
+  };
+
+  while (i < length) {
+    const ch = content[i]!;
+
+    if (
+      options.templateLiterals === true &&
+      ch === '}' &&
+      templateStack.length > 0 &&
+      templateStack[templateStack.length - 1] === braceDepth
+    ) {
+      templateStack.pop();
+      out[i] = ' ';
+      i = scanTemplate(i + 1);
+      lastSignificant = '`';
+      continue;
+    }
+
+    const lineComment = options.lineComments.find((token) => content.startsWith(token, i));
+    if (lineComment !== undefined) {
+      const end = content.indexOf('\n', i);
+      const stop = end === -1 ? length : end;
+      blank(i, stop);
+      i = stop;
+      continue;
+    }
+
+    const block = options.blockComment;
+    if (block !== undefined && content.startsWith(block.open, i)) {
+      let depth = 1;
+      let k = i + block.open.length;
+      while (k < length && depth > 0) {
+        if (block.nested === true && content.startsWith(block.open, k)) {
+          depth++;
+          k += block.open.length;
+        } else if (content.startsWith(block.close, k)) {
+          depth--;
+          k += block.close.length;
+        } else {
+          k++;
+        }
+      }
+      blank(i, k);
+      i = k;
+      continue;
+    }
+
+    if (
+      options.rawStrings === true &&
+      (ch === 'r' || ch === 'b') &&
+      !/[\w$]/.test(content[i - 1] ?? '')
+    ) {
+      const rawMatch = /^b?r(#*)"/.exec(content.slice(i, i + 260));
+      if (rawMatch !== null) {
+        const close = '"' + (rawMatch[1] ?? '');
+        i = scanQuoted(i, i + rawMatch[0].length, close, false, true);
+        lastSignificant = '"';
+        continue;
+      }
+    }
+
+    if (options.rawQuotes?.includes(ch) === true) {
+      i = scanQuoted(i, i + 1, ch, false, true);
+      lastSignificant = ch;
+      continue;
+    }
+
+    const isQuote = options.quotes.includes(ch);
+    const isMultilineQuote = options.multilineQuotes?.includes(ch) === true;
+    if (isQuote || isMultilineQuote) {
+      if (options.tripleQuotes === true && content.startsWith(ch.repeat(3), i)) {
+        i = scanQuoted(i, i + 3, ch.repeat(3), true, true);
+        lastSignificant = ch;
+        continue;
+      }
+      if (ch === "'" && options.charLiterals === true) {
+        const charMatch = /^'(?:\\(?:u\{[0-9a-fA-F]+\}|x[0-9a-fA-F]{2}|.)|[^\\'\n])'/.exec(
+          content.slice(i, i + 16)
+        );
+        if (charMatch === null) {
+          // A lifetime or label such as 'a, not a literal
+          i++;
+          continue;
+        }
+        blank(i + 1, i + charMatch[0].length - 1);
+        i += charMatch[0].length;
+        lastSignificant = ch;
+        continue;
+      }
+      i = scanQuoted(i, i + 1, ch, true, isMultilineQuote);
+      lastSignificant = ch;
+      continue;
+    }
+
+    if (options.templateLiterals === true && ch === '`') {
+      i = scanTemplate(i + 1);
+      lastSignificant = '`';
+      continue;
+    }
+
+    if (
+      options.regexLiterals === true &&
+      ch === '/' &&
+      (lastSignificant === '' ||
+        REGEX_PRECEDERS.has(lastSignificant) ||
+        (/[\w$]/.test(lastSignificant) && REGEX_KEYWORDS.has(lastWord)))
+    ) {
+      let k = i + 1;
+      let inClass = false;
+      let closed = false;
+      while (k < length && content[k] !== '\n') {
+        const c = content[k];
+        if (c === '\\') {
+          k += 2;
+          continue;
+        }
+        if (c === '[') {
+          inClass = true;
+        } else if (c === ']') {
+          inClass = false;
+        } else if (c === '/' && !inClass) {
+          closed = true;
+          break;
+        }
+        k++;
+      }
+      if (closed) {
+        blank(i + 1, k);
+        i = k + 1;
+        while (i < length && /[a-z]/.test(content[i]!)) {
+          i++;
+        }
+        lastSignificant = '/';
+        lastWord = '';
+        continue;
+      }
+    }
+
+    if (/[\w$]/.test(ch)) {
+      let k = i;
+      while (k < length && /[\w$]/.test(content[k]!)) {
+        k++;
+      }
+      lastWord = content.slice(i, k);
+      lastSignificant = content[k - 1]!;
+      i = k;
+      continue;
+    }
+
+    if (ch === '{') {
+      braceDepth++;
+    } else if (ch === '}') {
+      braceDepth--;
+    }
+
+    if (!/\s/.test(ch)) {
+      lastSignificant = ch;
+      lastWord = '';
+    }
+    i++;
+  }
+
+  return out.join('');
+}
+
+/**
+ * Builds a scanning context for the given content
+ */
+export function createSourceContext(content: string, options: MaskOptions): SourceContext {
+  const masked = maskSource(content, options);
+  const lineStarts = [0];
+  const depths = [0];
+  let depth = 0;
+
+  for (let i = 0; i < masked.length; i++) {
+    const ch = masked[i]!;
+    if (OPENERS.includes(ch)) {
+      depth++;
+    } else if (CLOSERS.includes(ch)) {
+      depth = Math.max(0, depth - 1);
+    } else if (ch === '\n') {
+      lineStarts.push(i + 1);
+      depths.push(depth);
+    }
+  }
+
+  return { content, masked, lineStarts, depths };
+}
+
+/**
+ * Finds the bracket closing the one at `openIndex`, or the end of the text
+ */
+export function findMatching(masked: string, openIndex: number): number {
+  let depth = 0;
+  for (let i = openIndex; i < masked.length; i++) {
+    const ch = masked[i]!;
+    if (OPENERS.includes(ch)) {
+      depth++;
+    } else if (CLOSERS.includes(ch)) {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+  }
+  return masked.length - 1;
+}
+
+/**
+ * Returns the zero-based line index containing `offset`
+ */
+export function lineIndexAt(ctx: SourceContext, offset: number): number {
+  let low = 0;
+  let high = ctx.lineStarts.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (ctx.lineStarts[mid]! <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Converts the offsets `[start, end)` into a 1-based, inclusive source location
+ */
+export function toLocation(ctx: SourceContext, start: number, end: number): SourceLocation {
+  const last = Math.max(start, end - 1);
+  const startLine = lineIndexAt(ctx, start);
+  const endLine = lineIndexAt(ctx, last);
+
+  return {
+    startLine: startLine + 1,
+    startColumn: start - ctx.lineStarts[startLine]! + 1,
+    endLine: endLine + 1,
+    endColumn: last - ctx.lineStarts[endLine]! + 1,
+  };
+}
+
+/**
+ * Returns the end offset (exclusive) of a declaration whose header ended at
+ * `header`: past the closing brace of its body, or past its terminator
+ */
+export function declarationEnd(
+  ctx: SourceContext,
+  header: { index: number; hasBody: boolean }
+): number {
+  if (header.hasBody) {
+    return findMatching(ctx.masked, header.index) + 1;
+  }
+  return ctx.masked[header.index] === ';' ? header.index + 1 : trimmedEnd(ctx, header.index);
+}
+
+/**
+ * Moves an end offset back over trailing whitespace
+ */
+export function trimmedEnd(ctx: SourceContext, end: number): number {
+  let i = end;
+  while (i > 0 && /\s/.test(ctx.masked[i - 1]!)) {
+    i--;
+  }
+  return i;
+}
+
+/**
+ * Returns the bracket nesting depth just before `offset`
+ */
+export function depthAt(ctx: SourceContext, offset: number): number {
+  const line = lineIndexAt(ctx, offset);
+  let depth = ctx.depths[line] ?? 0;
+  for (let i = ctx.lineStarts[line]!; i < offset; i++) {
+    const ch = ctx.masked[i]!;
+    if (OPENERS.includes(ch)) {
+      depth++;
+    } else if (CLOSERS.includes(ch)) {
+      depth--;
+    }
+  }
+  return depth;
+}
+
+/**
+ * Returns the offset of the first non-whitespace character of a line, or -1
+ * for blank lines
+ */
+export function lineContentStart(ctx: SourceContext, line: number): number {
+  const start = ctx.lineStarts[line]!;
+  const end = ctx.lineStarts[line + 1] ?? ctx.masked.length;
+  for (let i = start; i < end; i++) {
+    if (!/\s/.test(ctx.masked[i]!)) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Returns the previous non-whitespace character before `offset` in the masked text
+ */
+export function previousSignificant(masked: string, offset: number): string {
+  for (let i = offset - 1; i >= 0; i--) {
+    if (!/\s/.test(masked[i]!)) {
+      return masked[i]!;
+    }
+  }
+  return '';
+}
+
+/**
+ * Returns the next non-whitespace character at or after `offset` in the masked text
+ */
+export function nextSignificant(masked: string, offset: number): string {
+  for (let i = offset; i < masked.length; i++) {
+    if (!/\s/.test(masked[i]!)) {
+      return masked[i]!;
+    }
+  }
+  return '';
+}
+
+/**
+ * Collapses a slice of the original content into a single-line signature
+ */
+export function toSignature(content: string, start: number, end: number): string {
+  return content.slice(start, end).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Collapses a declaration with an initializer into a one-line signature.
+ * Initializers spanning several lines are cut after their first line.
+ */
+export function toValueSignature(content: string, start: number, end: number): string {
+  const text = content.slice(start, end).trimEnd().replace(/;$/, '');
+  const newline = text.indexOf('\n');
+  return newline === -1 ? toSignature(text, 0, text.length) : `${toSignature(text, 0, newline)} …`;
+}
+
+/**
+ * Returns the spans of the comma-separated items between the brackets at
+ * `open` and `close`, stopping early at a top-level `terminator`
+ */
+export function listItems(
+  ctx: SourceContext,
+  open: number,
+  close: number,
+  terminator?: string
+): Array<{ start: number; end: number }> {
+  const { masked } = ctx;
+  const items: Array<{ start: number; end: number }> = [];
+  let itemStart = open + 1;
+
+  const pushItem = (itemEnd: number): void => {
+    let start = itemStart;
+    while (start < itemEnd && /\s/.test(masked[start]!)) {
+      start++;
+    }
+    const end = trimmedEnd(ctx, itemEnd);
+    if (start < end) {
+      items.push({ start, end });
+    }
+  };
+
+  let i = open + 1;
+  while (i < close) {
+    const ch = masked[i]!;
+    if (ch === '(' || ch === '[' || ch === '{') {
+      i = findMatching(masked, i) + 1;
+      continue;
+    }
+    if (ch === terminator) {
+      pushItem(i);
+      return items;
+    }
+    if (ch === ',') {
+      pushItem(i);
+      itemStart = i + 1;
+    }
+    i++;
+  }
+
+  pushItem(close);
+  return items;
+}
+
+/**
+ * Returns the text of a `/** ... *\/` block comment directly preceding `offset`
+ */
+export function leadingBlockComment(content: string, offset: number): string | undefined {
+  let end = offset;
+  while (end > 0 && /\s/.test(content[end - 1]!)) {
+    end--;
+  }
+  if (!content.startsWith('*/', end - 2)) {
+    return undefined;
+  }
+
+  const start = content.lastIndexOf('/*', end - 2);
+  if (start === -1 || !content.startsWith('/**', start) || start + 3 > end - 2) {
+    return undefined;
+  }
+
+  return cleanBlockComment(content.slice(start, end));
+}
+
+/**
+ * Strips comment delimiters and leading asterisks from a block comment
+ */
+export function cleanBlockComment(comment: string): string | undefined {
+  const body = comment.replace(/^\/\*\*?/, '').replace(/\*\/$/, '');
+  const lines = body.split('\n').map((line) => line.replace(/^\s*\*? ?/, '').trimEnd());
+
+  while (lines.length > 0 && lines[0]!.trim() === '') {
+    lines.shift();
+  }
+  while (lines.length > 0 && lines[lines.length - 1]!.trim() === '') {
+    lines.pop();
+  }
+
+  return lines.length > 0 ? lines.join('\n') : undefined;
+}
+
+/**
+ * Finds the opening brace of a declaration body, skipping bracketed groups.
+ * Declarations without a body end at a semicolon, or at a line break when
+ * `endAtNewline` is set.
+ */
+export function findBodyStart(
+  masked: string,
+  from: number,
+  options: { endAtNewline?: boolean; skipBraceAfter?: RegExp } = {}
+): { index: number; hasBody: boolean } {
+  let i = from;
+
+  while (i < masked.length) {
+    const ch = masked[i]!;
+
+    if (ch === '(' || ch === '[') {
+      i = findMatching(masked, i) + 1;
+      continue;
+    }
+
+    if (ch === '{') {
+      if (options.skipBraceAfter?.test(masked.slice(Math.max(0, i - 16), i)) === true) {
+        i = findMatching(masked, i) + 1;
+        continue;
+      }
+      return { index: i, hasBody: true };
+    }
+
+    if (ch === ';' || ch === '}' || (ch === '\n' && options.endAtNewline === true)) {
+      return { index: i, hasBody: false };
+    }
+
+    i++;
+  }
+
+  return { index: masked.length, hasBody: false };
+}
+
+/**
+ * Returns the offsets where the direct members of a block start, one per line
+ */
+export function memberStarts(ctx: SourceContext, bodyOpen: number, bodyClose: number): number[] {
+  const starts: number[] = [];
+  const memberDepth = depthAt(ctx, bodyOpen) + 1;
+  const lastLine = lineIndexAt(ctx, bodyClose);
+
+  for (let line = lineIndexAt(ctx, bodyOpen) + 1; line <= lastLine; line++) {
+    if (ctx.depths[line] !== memberDepth) {
+      continue;
+    }
+    const start = lineContentStart(ctx, line);
+    if (start !== -1 && start < bodyClose) {
+      starts.push(start);
+    }
+  }
+
+  return starts;
+}
+
+/**
+ * Collects the line comments directly above `offset`, stripping `prefix`.
+ * A string prefix does not match a longer run of slashes (`//` skips `///`);
+ * a regex prefix should be anchored to the start of the trimmed line. Lines
+ * matching `skip` (such as attributes) may sit between the comments and the
+ * declaration.
+ */
+export function leadingLineComments(
+  ctx: SourceContext,
+  offset: number,
+  prefix: string | RegExp,
+  skip?: RegExp
+): string | undefined {
+  const docLines: string[] = [];
+  let line = lineIndexAt(ctx, offset) - 1;
+
+  while (line >= 0) {
+    const text = ctx.content.slice(ctx.lineStarts[line], ctx.lineStarts[line + 1]).trim();
+    const marker =
+      typeof prefix === 'string'
+        ? text.startsWith(prefix) && !text.startsWith(prefix + '/')
+          ? prefix
+          : undefined
+        : prefix.exec(text)?.[0];
+    if (marker !== undefined) {
+      docLines.unshift(text.slice(marker.length).replace(/^ /, ''));
+    } else if (docLines.length > 0 || skip?.test(text) !== true) {
+      break;
+    }
+    line--;
+  }
+
+  return docLines.length > 0 ? docLines.join('\n').trim() : undefined;
+}
+
+/**
+ * Reduces a type reference such as `pkg.Base<T>` to its simple name `Base`
+ */
+export function simpleTypeName(reference: string): string | undefined {
+  const base = reference.replace(/[<([][\s\S]*$/, '').trim();
+  return /([A-Za-z_$][\w$]*)$/.exec(base)?.[1];
+}
+
+/**
+ * Splits text on commas that are not nested inside brackets
+ */
+export function splitTopLevel(text: string, separator = ','): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let partStart = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]!;
+    if ('<([{'.includes(ch)) {
+      depth++;
+    } else if ('>)]}'.includes(ch) && !(ch === '>' && text[i - 1] === '=')) {
+      depth--;
+    } else if (ch === separator && depth === 0) {
+      parts.push(text.slice(partStart, i));
+      partStart = i + 1;
+    }
+  }
+  parts.push(text.slice(partStart));
+
+  return parts.map((part) => part.trim()).filter((part) => part !== '');
+}
+
+/**
+ * Parses the supertypes named in a declaration header such as
+ * `class A<T extends B> extends C implements D, E`. `clauses` maps each
+ * heritage keyword of the language to the relation it expresses.
+ */
+export function parseSupertypes(
+  header: string,
+  clauses: Record<string, Supertype['relation']>
+): Supertype[] {
+  const keyword = new RegExp(String.raw`\b(${Object.keys(clauses).join('|')})\b`, 'y');
+  const supertypes: Supertype[] = [];
+  let relation: Supertype['relation'] | undefined;
+  let clauseStart = 0;
+  let depth = 0;
+
+  const flush = (end: number): void => {
+    if (relation === undefined) {
+      return;
+    }
+    for (const reference of splitTopLevel(header.slice(clauseStart, end))) {
+      const name = simpleTypeName(reference);
+      if (name !== undefined) {
+        supertypes.push({ name, relation });
+      }
+    }
+  };
+
+  for (let i = 0; i < header.length; i++) {
+    const ch = header[i]!;
+    if ('<([{'.includes(ch)) {
+      depth++;
+      continue;
+    }
+    if ('>)]}'.includes(ch) && !(ch === '>' && header[i - 1] === '=')) {
+      depth--;
+      continue;
+    }
+    if (depth !== 0 || (i > 0 && /[\w$]/.test(header[i - 1]!))) {
+      continue;
+    }
+
+    keyword.lastIndex = i;
+    const match = keyword.exec(header);
+    if (match?.[1] !== undefined) {
+      flush(i);
+      relation = clauses[match[1]];
+      clauseStart = i + match[0].length;
+      i = clauseStart - 1;
+    }
+  }
+  flush(header.length);
+
+  return supertypes;
+}
+
+/**
+ * Returns the raw text of the string literal whose opening quote is at
+ * `quoteIndex`, or undefined when the literal is not closed
+ */
+export function stringLiteralAt(ctx: SourceContext, quoteIndex: number): string | undefined {
+  const quote = ctx.masked[quoteIndex];
+  if (quote === undefined) {
+    return undefined;
+  }
+  const close = ctx.masked.indexOf(quote, quoteIndex + 1);
+  return close === -1 ? undefined : ctx.content.slice(quoteIndex + 1, close);
+}
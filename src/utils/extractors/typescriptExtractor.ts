@@ -0,0 +1,623 @@
+import type { CodeSymbol, ExtractedClass, ExtractorResult, Visibility } from '../../types/index.js';
+import {
+  createSourceContext,
+  depthAt,
+  findMatching,
+  leadingBlockComment,
+  lineContentStart,
+  lineIndexAt,
+  listItems,
+  maskSource,
+  nextSignificant,
+  parseSupertypes,
+  previousSignificant,
+  splitTopLevel,
+  toLocation,
+  toSignature,
+  toValueSignature,
+  trimmedEnd,
+  type MaskOptions,
+  type SourceContext,
+} from './sourceScanner.js';
+
+const TS_MASK_OPTIONS: MaskOptions = {
+  lineComments: ['//'],
+  blockComment: { open: '/*', close: '*/' },
+  quotes: ["'", '"'],
+  templateLiterals: true,
+  regexLiterals: true,
+};
+
+const IDENT = String.raw`[A-Za-z_$][\w$]*`;
+
+const CLASS_PATTERN = new RegExp(
+  String.raw`(?:(?:export|declare|default|abstract)\s+)*class\b(?:\s+(${IDENT}))?`,
+  'y'
+);
+const INTERFACE_PATTERN = new RegExp(
+  String.raw`(?:(?:export|declare|default)\s+)*interface\s+(${IDENT})`,
+  'y'
+);
+const ENUM_PATTERN = new RegExp(
+  String.raw`(?:(?:export|declare)\s+)*(?:const\s+)?enum\s+(${IDENT})`,
+  'y'
+);
+const TYPE_PATTERN = new RegExp(
+  String.raw`(?:(?:export|declare)\s+)*type\s+(${IDENT})(?=\s*[<=])`,
+  'y'
+);
+const FUNCTION_PATTERN = new RegExp(
+  String.raw`(?:(?:export|declare|default|async)\s+)*function\b\s*\*?\s*(${IDENT})?`,
+  'y'
+);
+const VARIABLE_PATTERN = new RegExp(
+  String.raw`(?:(?:export|declare)\s+)*(?:const|let|var)\s+(${IDENT})`,
+  'y'
+);
+const COMMONJS_PATTERN = new RegExp(String.raw`(?:module\.)?exports\.(${IDENT})\s*=`, 'y');
+
+const MEMBER_MODIFIERS =
+  /(?:(?:public|private|protected|static|readonly|abstract|override|declare|async|accessor)\s+)*/y;
+const MEMBER_NAME = String.raw`(?:#?[A-Za-z_$][\w$]*|'[^']*'|"[^"]*"|\[[^\]]*\])`;
+const CONSTRUCTOR_PATTERN = /constructor\s*\(/y;
+const ACCESSOR_PATTERN = new RegExp(String.raw`(get|set)\s+(${MEMBER_NAME})\s*\(`, 'y');
+const METHOD_PATTERN = new RegExp(String.raw`\*?\s*(${MEMBER_NAME})\s*\??\s*(?=[(<])`, 'y');
+const PROPERTY_PATTERN = new RegExp(String.raw`(${MEMBER_NAME})\s*[?!]?\s*(?=[:=;]|$)`, 'my');
+const HERITAGE_CLAUSES = { extends: 'extends', implements: 'implements' } as const;
+const ENUM_MEMBER_PATTERN = /[A-Za-z_$][\w$]*|'[^']*'|"[^"]*"/y;
+// Module imports assigned to variables are dependencies, not declarations
+const MODULE_INITIALIZER = /=\s*(?:await\s+)?(?:require|import)\s*\(/;
+// `export { a, b as c }` without a `from` clause, and `export default name`
+const EXPORT_LIST_PATTERN = /\bexport\s*(?:type\s*)?\{([^}]*)\}(?!\s*from\b)/g;
+const EXPORT_DEFAULT_PATTERN = new RegExp(
+  String.raw`\bexport\s+default\s+(${IDENT})\s*(?:;|$)`,
+  'gm'
+);
+const COMMONJS_OBJECT_PATTERN = /\bmodule\.exports\s*=\s*\{/g;
+const COMMONJS_VALUE_PATTERN = new RegExp(
+  String.raw`\bmodule\.exports\s*=\s*(${IDENT})\s*(?:;|$)`,
+  'gm'
+);
+const MODULE_SYNTAX = /^[ \t]*(?:import|export)\b|\bmodule\.exports\b|^[ \t]*exports\./m;
+const EXPORTED_DECLARATION = /^(?:export|declare|(?:module\.)?exports\.)/;
+const FUNCTION_INITIALIZER =
+  /\s*(?:async\s+)?(?:function\b|(?:<[^>]*>\s*)?\(|[A-Za-z_$][\w$]*\s*=>)/y;
+
+// Characters after which a `{` opens an object type rather than a body
+const TYPE_CONTEXT_CHARS = ':|&<,(=?';
+
+interface HeaderEnd {
+  index: number;
+  kind: 'body' | 'arrow' | 'end';
+}
+
+/**
+ * Runs a sticky regex against the masked text at `offset`
+ */
+function matchAt(pattern: RegExp, masked: string, offset: number): RegExpExecArray | null {
+  pattern.lastIndex = offset;
+  return pattern.exec(masked);
+}
+
+/**
+ * Checks whether the last token before `offset` is an arrow
+ */
+function endsWithArrow(masked: string, offset: number): boolean {
+  let i = offset - 1;
+  while (i > 0 && /\s/.test(masked[i]!)) {
+    i--;
+  }
+  return masked[i] === '>' && masked[i - 1] === '=';
+}
+
+/**
+ * Finds where a declaration header ends: the opening brace of its body, an
+ * arrow, a terminating semicolon, or a line break that cannot continue it.
+ * Without `expectBody`, every brace is treated as part of the declaration.
+ */
+function findHeaderEnd(
+  masked: string,
+  from: number,
+  stopAtArrow: boolean,
+  expectBody = true
+): HeaderEnd {
+  let angleDepth = 0;
+  let i = from;
+
+  while (i < masked.length) {
+    const ch = masked[i]!;
+
+    if (ch === '(' || ch === '[') {
+      i = findMatching(masked, i) + 1;
+      continue;
+    }
+
+    if (ch === '<') {
+      angleDepth++;
+    } else if (ch === '>') {
+      if (masked[i - 1] === '=') {
+        if (stopAtArrow && angleDepth === 0) {
+          return { index: i + 1, kind: 'arrow' };
+        }
+      } else if (angleDepth > 0) {
+        angleDepth--;
+      }
+    } else if (ch === '{') {
+      if (
+        !expectBody ||
+        angleDepth > 0 ||
+        TYPE_CONTEXT_CHARS.includes(previousSignificant(masked, i))
+      ) {
+        i = findMatching(masked, i) + 1;
+        continue;
+      }
+      return { index: i, kind: 'body' };
+    } else if ((ch === ';' && angleDepth === 0) || ch === '}') {
+      return { index: i, kind: 'end' };
+    } else if (ch === '\n' && angleDepth === 0) {
+      const previous = previousSignificant(masked, i);
+      const next = nextSignificant(masked, i);
+      const continues =
+        ':|&,=(<'.includes(previous) || endsWithArrow(masked, i) || '|&.=?:{<'.includes(next);
+      if (!continues) {
+        return { index: i, kind: 'end' };
+      }
+    }
+
+    i++;
+  }
+
+  return { index: masked.length, kind: 'end' };
+}
+
+/**
+ * Returns the end offset (exclusive) of a declaration whose header ended at `header`
+ */
+function spanEnd(ctx: SourceContext, header: HeaderEnd): number {
+  if (header.kind === 'body') {
+    return findMatching(ctx.masked, header.index) + 1;
+  }
+  return ctx.masked[header.index] === ';' ? header.index + 1 : trimmedEnd(ctx, header.index);
+}
+
+/**
+ * Returns the end offset (exclusive) of a function whose header ends at
+ * `headerEnd`, covering both block bodies and expression-bodied arrows
+ */
+function functionEnd(ctx: SourceContext, headerEnd: number): number {
+  let i = headerEnd;
+  while (i < ctx.masked.length && /\s/.test(ctx.masked[i]!)) {
+    i++;
+  }
+  if (ctx.masked[i] === '{') {
+    return findMatching(ctx.masked, i) + 1;
+  }
+  return spanEnd(ctx, findHeaderEnd(ctx.masked, i, false, false));
+}
+
+/**
+ * Skips decorators starting at `offset`, returning the offset after them
+ */
+function skipDecorators(masked: string, offset: number): number {
+  let i = offset;
+  const decorator = /@[A-Za-z_$][\w$.]*/y;
+
+  while (masked[i] === '@') {
+    const match = matchAt(decorator, masked, i);
+    if (match === null) {
+      break;
+    }
+    i += match[0].length;
+    while (i < masked.length && /\s/.test(masked[i]!)) {
+      i++;
+    }
+    if (masked[i] === '(') {
+      i = findMatching(masked, i) + 1;
+      while (i < masked.length && /\s/.test(masked[i]!)) {
+        i++;
+      }
+    }
+  }
+
+  return i;
+}
+
+/**
+ * Collects the names exported by `export { ... }` lists, `export default name`
+ * and `module.exports` assignments
+ */
+function collectExportedNames(ctx: SourceContext): Set<string> {
+  const { masked } = ctx;
+  const names = new Set<string>();
+
+  for (const match of masked.matchAll(EXPORT_LIST_PATTERN)) {
+    for (const item of splitTopLevel(match[1]!)) {
+      const local = /^(?:type\s+)?([A-Za-z_$][\w$]*)/.exec(item.trim())?.[1];
+      if (local !== undefined) {
+        names.add(local);
+      }
+    }
+  }
+
+  for (const pattern of [EXPORT_DEFAULT_PATTERN, COMMONJS_VALUE_PATTERN]) {
+    for (const match of masked.matchAll(pattern)) {
+      names.add(match[1]!);
+    }
+  }
+
+  for (const match of masked.matchAll(COMMONJS_OBJECT_PATTERN)) {
+    const open = match.index + match[0].length - 1;
+    for (const { start, end } of listItems(ctx, open, findMatching(masked, open))) {
+      // Shorthand `name` or `key: name`
+      const value = /^(?:[\w$]+\s*:\s*)?([A-Za-z_$][\w$]*)$/.exec(masked.slice(start, end))?.[1];
+      if (value !== undefined) {
+        names.add(value);
+      }
+    }
+  }
+
+  return names;
+}
+
+/**
+ * Class members are public unless marked `private` or named with `#`
+ */
+function memberVisibility(modifiers: string, name: string): Visibility {
+  return /\bprivate\b/.test(modifiers) || name.startsWith('#') ? 'private' : 'public';
+}
+
+/**
+ * Extracts members of a class or interface body
+ */
+function extractMembers(
+  ctx: SourceContext,
+  bodyOpen: number,
+  bodyClose: number
+): { methods: CodeSymbol[]; fields: CodeSymbol[] } {
+  const methods: CodeSymbol[] = [];
+  const fields: CodeSymbol[] = [];
+  const memberDepth = depthAt(ctx, bodyOpen) + 1;
+  const firstLine = lineIndexAt(ctx, bodyOpen) + 1;
+  const lastLine = lineIndexAt(ctx, bodyClose);
+  let docStart: number | undefined;
+
+  for (let line = firstLine; line <= lastLine; line++) {
+    if (ctx.depths[line] !== memberDepth) {
+      continue;
+    }
+
+    const lineStart = lineContentStart(ctx, line);
+    if (lineStart === -1 || lineStart >= bodyClose) {
+      continue;
+    }
+
+    const start = skipDecorators(ctx.masked, lineStart);
+    docStart ??= lineStart;
+    if (
+      start >= bodyClose ||
+      lineIndexAt(ctx, start) !== line ||
+      /[\s;]/.test(ctx.masked[start] ?? ' ')
+    ) {
+      // Decorator on its own line; the member follows on a later line
+      if (ctx.masked[lineStart] !== '@') {
+        docStart = undefined;
+      }
+      continue;
+    }
+
+    const declStart = docStart;
+    const documentation = leadingBlockComment(ctx.content, declStart);
+    docStart = undefined;
+
+    const modifiers = matchAt(MEMBER_MODIFIERS, ctx.masked, start)?.[0] ?? '';
+    const nameStart = start + modifiers.length;
+
+    const constructorMatch = matchAt(CONSTRUCTOR_PATTERN, ctx.masked, nameStart);
+    const accessorMatch =
+      constructorMatch === null ? matchAt(ACCESSOR_PATTERN, ctx.masked, nameStart) : null;
+    const methodMatch =
+      constructorMatch === null && accessorMatch === null
+        ? matchAt(METHOD_PATTERN, ctx.masked, nameStart)
+        : null;
+
+    if (constructorMatch !== null || accessorMatch !== null || methodMatch !== null) {
+      const name =
+        constructorMatch !== null
+          ? 'constructor'
+          : accessorMatch !== null
+            ? `${accessorMatch[1]} ${accessorMatch[2]}`
+            : methodMatch![1]!;
+      const header = findHeaderEnd(ctx.masked, nameStart, false);
+      methods.push({
+        name,
+        signature: toSignature(ctx.content, start, header.index),
+        documentation,
+        location: toLocation(ctx, declStart, spanEnd(ctx, header)),
+        visibility: memberVisibility(modifiers, accessorMatch?.[2] ?? name),
+      });
+      continue;
+    }
+
+    const propertyMatch = matchAt(PROPERTY_PATTERN, ctx.masked, nameStart);
+    if (propertyMatch?.[1] === undefined || propertyMatch[1].startsWith('[')) {
+      continue;
+    }
+
+    const afterName = nameStart + propertyMatch[0].length;
+    const arrow = findArrowFunction(ctx.masked, afterName);
+    if (arrow !== null) {
+      methods.push({
+        name: propertyMatch[1],
+        signature: toSignature(ctx.content, start, arrow),
+        documentation,
+        location: toLocation(ctx, declStart, functionEnd(ctx, arrow)),
+        visibility: memberVisibility(modifiers, propertyMatch[1]),
+      });
+      continue;
+    }
+
+    const end = findHeaderEnd(ctx.masked, afterName, false, false);
+    fields.push({
+      name: propertyMatch[1],
+      signature: toSignature(ctx.content, start, end.index).replace(/;$/, ''),
+      documentation,
+      location: toLocation(ctx, declStart, spanEnd(ctx, end)),
+      visibility: memberVisibility(modifiers, propertyMatch[1]),
+    });
+  }
+
+  return { methods, fields };
+}
+
+/**
+ * Extracts the members of an enum body
+ */
+function extractEnumValues(ctx: SourceContext, bodyOpen: number): CodeSymbol[] {
+  const values: CodeSymbol[] = [];
+
+  for (const { start, end } of listItems(ctx, bodyOpen, findMatching(ctx.masked, bodyOpen))) {
+    const name = matchAt(ENUM_MEMBER_PATTERN, ctx.content, start)?.[0];
+    if (name === undefined) {
+      continue;
+    }
+    values.push({
+      name,
+      signature: toSignature(ctx.content, start, end),
+      documentation: leadingBlockComment(ctx.content, start),
+      location: toLocation(ctx, start, end),
+    });
+  }
+
+  return values;
+}
+
+/**
+ * If the initializer following `offset` (an optional type annotation and
+ * `=`) is a function, returns the offset where its header ends
+ */
+function findArrowFunction(masked: string, offset: number): number | null {
+  let i = offset;
+  while (i < masked.length && /\s/.test(masked[i]!)) {
+    i++;
+  }
+
+  if (masked[i] === ':') {
+    // Skip the type annotation up to the initializer
+    let angleDepth = 0;
+    i++;
+    while (i < masked.length) {
+      const ch = masked[i]!;
+      if (ch === '(' || ch === '[' || ch === '{') {
+        i = findMatching(masked, i) + 1;
+        continue;
+      }
+      if (ch === '<') {
+        angleDepth++;
+      } else if (ch === '>' && masked[i - 1] !== '=') {
+        angleDepth--;
+      } else if (ch === '=' && masked[i + 1] !== '>' && angleDepth <= 0) {
+        break;
+      } else if (ch === ';' || ch === '\n' || ch === '}') {
+        return null;
+      }
+      i++;
+    }
+  }
+
+  if (masked[i] !== '=' || masked[i + 1] === '=') {
+    return null;
+  }
+
+  const initializer = matchAt(FUNCTION_INITIALIZER, masked, i + 1);
+  if (initializer === null) {
+    return null;
+  }
+
+  if (initializer[0].trimEnd().endsWith('function')) {
+    return findHeaderEnd(masked, i + 1 + initializer[0].length, false).index;
+  }
+
+  const header = findHeaderEnd(masked, i + 1, true);
+  return header.kind === 'arrow' ? header.index : null;
+}
+
+/**
+ * Extracts classes, interfaces, enums, type aliases, functions and top-level
+ * variables from TypeScript or JavaScript source
+ */
+export function extractTypeScript(content: string): ExtractorResult {
+  const ctx = createSourceContext(content, TS_MASK_OPTIONS);
+  const { masked } = ctx;
+  const classes: ExtractedClass[] = [];
+  const functions: CodeSymbol[] = [];
+  const variables: CodeSymbol[] = [];
+  const exportedNames = collectExportedNames(ctx);
+  // Scripts without module syntax expose every top-level declaration
+  const isScript = !MODULE_SYNTAX.test(masked);
+  let decoratorStart: number | undefined;
+
+  const visibilityOf = (signature: string, name: string): Visibility =>
+    isScript || EXPORTED_DECLARATION.test(signature) || exportedNames.has(name)
+      ? 'public'
+      : 'private';
+
+  for (let line = 0; line < ctx.lineStarts.length; line++) {
+    if (ctx.depths[line] !== 0) {
+      continue;
+    }
+
+    const lineStart = lineContentStart(ctx, line);
+    if (lineStart === -1) {
+      continue;
+    }
+
+    const start = skipDecorators(masked, lineStart);
+    if (start !== lineStart && lineIndexAt(ctx, start) !== line) {
+      decoratorStart ??= lineStart;
+      continue;
+    }
+
+    const declStart = decoratorStart ?? lineStart;
+    const documentation = leadingBlockComment(content, declStart);
+    decoratorStart = undefined;
+
+    const classMatch = matchAt(CLASS_PATTERN, masked, start);
+    if (classMatch !== null) {
+      const header = findHeaderEnd(masked, start + classMatch[0].length, false);
+      const members =
+        header.kind === 'body'
+          ? extractMembers(ctx, header.index, findMatching(masked, header.index))
+          : { methods: [], fields: [] };
+      const name = classMatch[1] ?? 'default';
+      const signature = toSignature(content, start, header.index);
+      classes.push({
+        name,
+        kind: 'class',
+        supertypes: parseSupertypes(masked.slice(start, header.index), HERITAGE_CLAUSES),
+        signature,
+        documentation,
+        location: toLocation(ctx, declStart, spanEnd(ctx, header)),
+        visibility: visibilityOf(signature, name),
+        ...members,
+        enumValues: [],
+      });
+      continue;
+    }
+
+    const interfaceMatch = matchAt(INTERFACE_PATTERN, masked, start);
+    if (interfaceMatch?.[1] !== undefined) {
+      const header = findHeaderEnd(masked, start + interfaceMatch[0].length, false);
+      const members =
+        header.kind === 'body'
+          ? extractMembers(ctx, header.index, findMatching(masked, header.index))
+          : { methods: [], fields: [] };
+      const signature = toSignature(content, start, header.index);
+      classes.push({
+        name: interfaceMatch[1],
+        kind: 'interface',
+        supertypes: parseSupertypes(masked.slice(start, header.index), HERITAGE_CLAUSES),
+        signature,
+        documentation,
+        location: toLocation(ctx, declStart, spanEnd(ctx, header)),
+        visibility: visibilityOf(signature, interfaceMatch[1]),
+        ...members,
+        enumValues: [],
+      });
+      continue;
+    }
+
+    const enumMatch = matchAt(ENUM_PATTERN, masked, start);
+    if (enumMatch?.[1] !== undefined) {
+      const header = findHeaderEnd(masked, start + enumMatch[0].length, false);
+      const signature = toSignature(content, start, header.index);
+      classes.push({
+        name: enumMatch[1],
+        kind: 'enum',
+        supertypes: [],
+        signature,
+        documentation,
+        location: toLocation(ctx, declStart, spanEnd(ctx, header)),
+        visibility: visibilityOf(signature, enumMatch[1]),
+        methods: [],
+        fields: [],
+        enumValues: header.kind === 'body' ? extractEnumValues(ctx, header.index) : [],
+      });
+      continue;
+    }
+
+    const typeMatch = matchAt(TYPE_PATTERN, masked, start);
+    if (typeMatch?.[1] !== undefined) {
+      const header = findHeaderEnd(masked, start + typeMatch[0].length, false, false);
+      const signature = toSignature(content, start, header.index);
+      classes.push({
+        name: typeMatch[1],
+        kind: 'type',
+        supertypes: [],
+        signature,
+        documentation,
+        location: toLocation(ctx, declStart, spanEnd(ctx, header)),
+        visibility: visibilityOf(signature, typeMatch[1]),
+        methods: [],
+        fields: [],
+        enumValues: [],
+      });
+      continue;
+    }
+
+    const functionMatch = matchAt(FUNCTION_PATTERN, masked, start);
+    if (functionMatch !== null) {
+      const header = findHeaderEnd(masked, start + functionMatch[0].length, false);
+      const name = functionMatch[1] ?? 'default';
+      const signature = toSignature(content, start, header.index);
+      functions.push({
+        name,
+        signature,
+        documentation,
+        location: toLocation(ctx, declStart, spanEnd(ctx, header)),
+        visibility: visibilityOf(signature, name),
+      });
+      continue;
+    }
+
+    const variableMatch =
+      matchAt(VARIABLE_PATTERN, masked, start) ?? matchAt(COMMONJS_PATTERN, masked, start);
+    if (variableMatch?.[1] !== undefined) {
+      const afterName = start + variableMatch[0].length - (variableMatch[0].endsWith('=') ? 1 : 0);
+      const headerEnd = findArrowFunction(masked, afterName);
+      if (headerEnd !== null) {
+        const signature = toSignature(content, start, headerEnd);
+        functions.push({
+          name: variableMatch[1],
+          signature,
+          documentation,
+          location: toLocation(ctx, declStart, functionEnd(ctx, headerEnd)),
+          visibility: visibilityOf(signature, variableMatch[1]),
+        });
+        continue;
+      }
+
+      if (!variableMatch[0].endsWith('=')) {
+        const end = spanEnd(ctx, findHeaderEnd(masked, afterName, false, false));
+        const signature = toValueSignature(content, start, end);
+        if (!MODULE_INITIALIZER.test(signature)) {
+          variables.push({
+            name: variableMatch[1],
+            signature,
+            documentation,
+            location: toLocation(ctx, declStart, end),
+            visibility: visibilityOf(signature, variableMatch[1]),
+          });
+        }
+      }
+    }
+  }
+
+  return { classes, functions, variables };
+}
+
+/**
+ * Blanks comments and string contents in TypeScript or JavaScript source, keeping offsets
+ */
+export function maskTypeScript(content: string): string {
+  return maskSource(content, TS_MASK_OPTIONS);
+}
@@ -0,0 +1,187 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { Minimatch } from 'minimatch';
+
+export interface WalkOptions {
+  /** Skip paths excluded by .gitignore, .ignore and .contextignore files (default: true) */
+  respectIgnoreFiles?: boolean;
+}
+
+/**
+ * One line of an ignore file
+ */
+interface IgnoreRule {
+  matcher: Minimatch;
+  negated: boolean;
+  directoryOnly: boolean;
+}
+
+/**
+ * The rules of the ignore files in one directory
+ */
+interface IgnoreRuleSet {
+  baseDir: string;
+  rules: IgnoreRule[];
+}
+
+// Read in this order in each directory, so later files take precedence
+const IGNORE_FILES = ['.gitignore', '.ignore', '.contextignore'];
+
+// Skipped whether or not ignore files are honoured
+const ALWAYS_SKIPPED_DIRECTORIES = new Set(['node_modules']);
+
+/**
+ * Parses the lines of an ignore file using .gitignore syntax
+ */
+function parseIgnoreFile(content: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    // Trailing spaces are ignored unless escaped
+    let line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (line === '' || line.startsWith('#')) {
+      continue;
+    }
+
+    const negated = line.startsWith('!');
+    if (negated) {
+      line = line.slice(1);
+    }
+    line = line.replace(/^\\(?=[#!])/, '');
+
+    const directoryOnly = line.endsWith('/');
+    if (directoryOnly) {
+      line = line.slice(0, -1);
+    }
+    if (line === '') {
+      continue;
+    }
+
+    // Patterns with a slash are relative to the ignore file; others match at any depth
+    const anchored = line.includes('/');
+    const pattern = anchored ? line.replace(/^\//, '') : `**/${line}`;
+    rules.push({ matcher: new Minimatch(pattern, { dot: true }), negated, directoryOnly });
+  }
+
+  return rules;
+}
+
+/**
+ * Reads the rules of the ignore files in a directory
+ */
+async function readIgnoreRules(dir: string): Promise<IgnoreRuleSet | undefined> {
+  const rules: IgnoreRule[] = [];
+
+  for (const name of IGNORE_FILES) {
+    try {
+      rules.push(...parseIgnoreFile(await fs.readFile(path.join(dir, name), 'utf-8')));
+    } catch {
+      // No ignore file of this kind
+    }
+  }
+
+  return rules.length > 0 ? { baseDir: dir, rules } : undefined;
+}
+
+/**
+ * Reads the ignore files of the directories above the root, up to the
+ * enclosing git repository, whose rules also apply inside the root
+ */
+async function readAncestorRules(root: string): Promise<IgnoreRuleSet[]> {
+  const ancestors: string[] = [];
+  let dir = root;
+
+  while (path.dirname(dir) !== dir) {
+    try {
+      await fs.access(path.join(dir, '.git'));
+      break;
+    } catch {
+      // Not the repository root
+    }
+    dir = path.dirname(dir);
+    ancestors.unshift(dir);
+  }
+
+  // Outside a git repository only the root's own ignore files apply
+  if (path.dirname(dir) === dir) {
+    return [];
+  }
+
+  const ruleSets: IgnoreRuleSet[] = [];
+  for (const ancestor of ancestors) {
+    const ruleSet = await readIgnoreRules(ancestor);
+    if (ruleSet !== undefined) {
+      ruleSets.push(ruleSet);
+    }
+  }
+  return ruleSets;
+}
+
+/**
+ * Checks a path against the rule sets in effect for its directory. The last
+ * matching rule wins, and deeper ignore files override shallower ones.
+ */
+function isIgnored(fullPath: string, isDirectory: boolean, ruleSets: IgnoreRuleSet[]): boolean {
+  let ignored = false;
+
+  for (const { baseDir, rules } of ruleSets) {
+    const relativePath = path.relative(baseDir, fullPath).split(path.sep).join('/');
+    for (const rule of rules) {
+      if ((isDirectory || !rule.directoryOnly) && rule.matcher.match(relativePath)) {
+        ignored = !rule.negated;
+      }
+    }
+  }
+
+  return ignored;
+}
+
+/**
+ * Lists the files under a directory recursively, skipping hidden and
+ * dependency directories and, unless disabled, the paths excluded by nested
+ * ignore files
+ * @param root Directory to walk
+ * @param options Walk options
+ * @returns Sorted absolute file paths
+ */
+export async function walkFiles(root: string, options: WalkOptions = {}): Promise<string[]> {
+  const respectIgnoreFiles = options.respectIgnoreFiles ?? true;
+  const files: string[] = [];
+
+  async function walk(dir: string, inherited: IgnoreRuleSet[]): Promise<void> {
+    let ruleSets = inherited;
+    if (respectIgnoreFiles) {
+      const own = await readIgnoreRules(dir);
+      if (own !== undefined) {
+        ruleSets = [...inherited, own];
+      }
+    }
+
+    try {
+      const entries = await fs.readdir(dir, { withFileTypes: true });
+
+      await Promise.all(
+        entries.map(async (entry) => {
+          const fullPath = path.join(dir, entry.name);
+
+          if (entry.isDirectory()) {
+            if (
+              !entry.name.startsWith('.') &&
+              !ALWAYS_SKIPPED_DIRECTORIES.has(entry.name) &&
+              !isIgnored(fullPath, true, ruleSets)
+            ) {
+              await walk(fullPath, ruleSets);
+            }
+          } else if (entry.isFile() && !isIgnored(fullPath, false, ruleSets)) {
+            files.push(fullPath);
+          }
+        })
+      );
+    } catch (error) {
+      console.error(`Error reading directory ${dir}: ${(error as Error).message}`);
+    }
+  }
+
+  await walk(root, respectIgnoreFiles ? await readAncestorRules(root) : []);
+  return files.sort();
+}
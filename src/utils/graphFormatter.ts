@@ -0,0 +1,136 @@
+import * as path from 'path';
+import type { DependencyGraph, DependencyNode } from '../types/index.js';
+
+const ROLE_COLORS: Record<DependencyNode['role'], { fill: string; stroke: string }> = {
+  matched: { fill: '#fff3bf', stroke: '#d4a106' },
+  referencing: { fill: '#dbe9ff', stroke: '#4a78c2' },
+  imported: { fill: '#e3f5e1', stroke: '#4f9a48' },
+};
+
+interface DirectoryGroup {
+  /** Directory relative to the files' common directory, with `/` separators */
+  label: string;
+  nodes: Array<{ id: string; node: DependencyNode }>;
+}
+
+/**
+ * Returns the deepest directory containing all the given files
+ */
+function commonDirectory(files: string[]): string {
+  const [first, ...rest] = files.map((file) => path.dirname(file).split(path.sep));
+  if (first === undefined) {
+    return '';
+  }
+
+  let length = first.length;
+  for (const parts of rest) {
+    let i = 0;
+    while (i < length && parts[i] === first[i]) {
+      i++;
+    }
+    length = i;
+  }
+  return first.slice(0, length).join(path.sep);
+}
+
+/**
+ * Assigns each node an id and groups the nodes by directory
+ */
+function groupNodes(graph: DependencyGraph): {
+  ids: Map<string, string>;
+  groups: DirectoryGroup[];
+} {
+  const base = commonDirectory(graph.nodes.map((node) => node.file));
+  const ids = new Map<string, string>();
+  const groups = new Map<string, DirectoryGroup>();
+
+  graph.nodes.forEach((node, index) => {
+    const id = `n${index}`;
+    ids.set(node.file, id);
+
+    const relativeDir = path.relative(base, path.dirname(node.file)).split(path.sep).join('/');
+    const label = relativeDir !== '' ? relativeDir : path.basename(base);
+    let group = groups.get(label);
+    if (group === undefined) {
+      group = { label, nodes: [] };
+      groups.set(label, group);
+    }
+    group.nodes.push({ id, node });
+  });
+
+  return {
+    ids,
+    groups: Array.from(groups.values()).sort((a, b) => a.label.localeCompare(b.label)),
+  };
+}
+
+/**
+ * Returns the file name and depth shown for a node
+ */
+function nodeLabel(node: DependencyNode): string {
+  return `${path.basename(node.file)} (depth ${node.depth})`;
+}
+
+/**
+ * Renders a dependency graph as a Mermaid flowchart with one subgraph per
+ * directory and nodes styled by their role
+ */
+export function formatMermaidGraph(graph: DependencyGraph): string {
+  const { ids, groups } = groupNodes(graph);
+  const escape = (text: string): string => text.replace(/"/g, '#quot;');
+  const lines = ['graph LR'];
+
+  groups.forEach((group, index) => {
+    lines.push(`  subgraph d${index}["${escape(group.label)}"]`);
+    for (const { id, node } of group.nodes) {
+      lines.push(`    ${id}["${escape(nodeLabel(node))}"]:::${node.role}`);
+    }
+    lines.push('  end');
+  });
+
+  for (const [from, to] of graph.edges) {
+    const fromId = ids.get(from);
+    const toId = ids.get(to);
+    if (fromId !== undefined && toId !== undefined) {
+      lines.push(`  ${fromId} --> ${toId}`);
+    }
+  }
+
+  for (const [role, colors] of Object.entries(ROLE_COLORS)) {
+    lines.push(`  classDef ${role} fill:${colors.fill},stroke:${colors.stroke}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Renders a dependency graph in Graphviz DOT with one cluster per directory
+ */
+export function formatDotGraph(graph: DependencyGraph): string {
+  const { ids, groups } = groupNodes(graph);
+  const escape = (text: string): string => text.replace(/["\\]/g, '\\$&');
+  const lines = ['digraph dependencies {', '  rankdir=LR;', '  node [shape=box, style=filled];'];
+
+  groups.forEach((group, index) => {
+    lines.push(`  subgraph cluster_${index} {`);
+    lines.push(`    label="${escape(group.label)}";`);
+    for (const { id, node } of group.nodes) {
+      const colors = ROLE_COLORS[node.role];
+      lines.push(
+        `    ${id} [label="${escape(nodeLabel(node))}", fillcolor="${colors.fill}", color="${colors.stroke}"];`
+      );
+    }
+    lines.push('  }');
+  });
+
+  for (const [from, to] of graph.edges) {
+    const fromId = ids.get(from);
+    const toId = ids.get(to);
+    if (fromId !== undefined && toId !== undefined) {
+      lines.push(`  ${fromId} -> ${toId};`);
+    }
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
@@ -0,0 +1,458 @@
+import { promises as fs, type Stats } from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import type { ImportResolveContext, ImportResolver } from '../types/index.js';
+import {
+  extractDartImports,
+  extractDartParts,
+  resolveDartImport,
+} from './importResolvers/dartImports.js';
+import { extractGoImports, resolveGoImport } from './importResolvers/goImports.js';
+import { extractPythonImports, resolvePythonImport } from './importResolvers/pythonImports.js';
+import {
+  extractTypeScriptImports,
+  resolveTypeScriptImport,
+} from './importResolvers/typescriptImports.js';
+import { walkFiles, type WalkOptions } from './fileWalker.js';
+
+/**
+ * Import edges between the source files under one root directory
+ */
+export interface ImportGraph {
+  root: string;
+  /** Files each source file imports */
+  imports: Map<string, string[]>;
+  /** Source files importing each file */
+  importedBy: Map<string, string[]>;
+  /**
+   * Files each source file is joined with by part directives, such as a Dart
+   * library and its parts. These edges are in `imports` too.
+   */
+  parts: Map<string, string[]>;
+}
+
+interface GraphFileEntry {
+  mtimeMs: number;
+  size: number;
+  /** Import paths as written in the file */
+  specifiers: string[];
+  /** Specifiers joining the file with others into one unit, e.g. Dart parts */
+  partSpecifiers: string[];
+  /** Files the specifiers resolve to */
+  imports: string[];
+  /** Files the part specifiers resolve to */
+  parts: string[];
+  /** Source files that import this file */
+  importedBy: string[];
+}
+
+interface StoredImportGraph {
+  version: number;
+  root: string;
+  files: Record<string, GraphFileEntry>;
+  /** Modification times of the configuration files resolution depended on */
+  configFiles: Record<string, number>;
+}
+
+// Bump when the stored format or import resolution changes
+const GRAPH_VERSION = 5;
+
+const IMPORT_RESOLVERS: ImportResolver[] = [
+  {
+    extensions: ['.dart'],
+    extractImports: extractDartImports,
+    extractParts: extractDartParts,
+    resolve: resolveDartImport,
+  },
+  {
+    extensions: ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'],
+    extractImports: extractTypeScriptImports,
+    resolve: resolveTypeScriptImport,
+  },
+  {
+    extensions: ['.py', '.pyi'],
+    extractImports: extractPythonImports,
+    resolve: resolvePythonImport,
+  },
+  { extensions: ['.go'], extractImports: extractGoImports, resolve: resolveGoImport },
+];
+
+/**
+ * Returns the import resolver for a file's extension
+ */
+function getImportResolver(filePath: string): ImportResolver | undefined {
+  const extension = path.extname(filePath).toLowerCase();
+  return IMPORT_RESOLVERS.find((resolver) => resolver.extensions.includes(extension));
+}
+
+/**
+ * Extracts the import specifiers of a file and those among them that are
+ * part directives
+ */
+async function extractImports(
+  filePath: string
+): Promise<{ specifiers: string[]; partSpecifiers: string[] }> {
+  const resolver = getImportResolver(filePath);
+  if (resolver === undefined) {
+    return { specifiers: [], partSpecifiers: [] };
+  }
+
+  try {
+    const content = await fs.readFile(filePath, 'utf-8');
+    return {
+      specifiers: resolver.extractImports(content),
+      partSpecifiers: resolver.extractParts?.(content) ?? [],
+    };
+  } catch (error) {
+    console.error(`Could not read imports from ${filePath}:`, error);
+    return { specifiers: [], partSpecifiers: [] };
+  }
+}
+
+/**
+ * Parses JSON that may contain comments and trailing commas, as tsconfig.json does
+ */
+function parseJsonWithComments(text: string): unknown {
+  let json = '';
+  let inString = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]!;
+    if (inString) {
+      json += ch;
+      if (ch === '\\') {
+        json += text[++i] ?? '';
+      } else if (ch === '"') {
+        inString = false;
+      }
+    } else if (ch === '/' && text[i + 1] === '/') {
+      const end = text.indexOf('\n', i);
+      i = end === -1 ? text.length : end - 1;
+    } else if (ch === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      i = end === -1 ? text.length : end + 1;
+    } else {
+      inString = ch === '"';
+      json += ch;
+    }
+  }
+
+  return JSON.parse(json.replace(/,(\s*[}\]])/g, '$1'));
+}
+
+/**
+ * Creates the lookups used by import resolvers, recording the modification
+ * time of every configuration file read or looked up in `configFiles`
+ */
+function createResolveContext(
+  root: string,
+  files: Record<string, GraphFileEntry>,
+  configFiles: Record<string, number>
+): ImportResolveContext {
+  const memos = new Map<string, Promise<unknown>>();
+
+  const memo = <T>(key: string, compute: () => Promise<T>): Promise<T> => {
+    let value = memos.get(key) as Promise<T> | undefined;
+    if (value === undefined) {
+      value = compute();
+      memos.set(key, value);
+    }
+    return value;
+  };
+
+  const statOf = (filePath: string): Promise<Stats | undefined> =>
+    memo(`stat:${filePath}`, () => fs.stat(filePath).catch(() => undefined));
+
+  const readText = (filePath: string): Promise<string | undefined> =>
+    memo(`text:${filePath}`, async () => {
+      configFiles[filePath] = (await statOf(filePath))?.mtimeMs ?? 0;
+      return fs.readFile(filePath, 'utf-8').catch(() => undefined);
+    });
+
+  const findUp = (startDir: string, name: string): Promise<string | undefined> =>
+    memo(`up:${startDir}:${name}`, async () => {
+      // Recorded so that creating a closer configuration file is noticed too
+      const candidate = path.join(startDir, name);
+      const stats = await statOf(candidate);
+      configFiles[candidate] = stats?.mtimeMs ?? 0;
+      if (stats !== undefined) {
+        return startDir;
+      }
+      const parent = path.dirname(startDir);
+      return parent !== startDir ? findUp(parent, name) : undefined;
+    });
+
+  return {
+    root,
+    isFile: async (filePath) =>
+      files[filePath] !== undefined || (await statOf(filePath))?.isFile() === true,
+    isDirectory: async (dirPath) => (await statOf(dirPath))?.isDirectory() === true,
+    listFiles: (dirPath) =>
+      memo(`files:${dirPath}`, async () => {
+        const entries = await fs.readdir(dirPath, { withFileTypes: true }).catch(() => []);
+        return entries.filter((entry) => entry.isFile()).map((entry) => entry.name);
+      }),
+    readText,
+    readJson: (filePath) =>
+      memo(`json:${filePath}`, async () => {
+        const text = await readText(filePath);
+        try {
+          return text !== undefined ? parseJsonWithComments(text) : undefined;
+        } catch {
+          return undefined;
+        }
+      }),
+    findUp,
+    memo,
+  };
+}
+
+/**
+ * Checks whether any configuration file read during resolution was modified,
+ * created or deleted since the graph was stored
+ */
+async function haveConfigFilesChanged(configFiles: Record<string, number>): Promise<boolean> {
+  for (const [filePath, mtimeMs] of Object.entries(configFiles)) {
+    const current = await fs
+      .stat(filePath)
+      .then((stats) => stats.mtimeMs)
+      .catch(() => 0);
+    if (current !== mtimeMs) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Checks if a file is a source file
+ */
+function isSourceFile(filename: string): boolean {
+  const sourceExtensions = [
+    '.dart',
+    '.js',
+    '.jsx',
+    '.mjs',
+    '.cjs',
+    '.ts',
+    '.tsx',
+    '.mts',
+    '.cts',
+    '.py',
+    '.pyi',
+    '.java',
+    '.kt',
+    '.swift',
+    '.go',
+    '.rs',
+    '.rb',
+    '.php',
+    '.cpp',
+    '.c',
+    '.h',
+    '.cs',
+  ];
+  return sourceExtensions.some((ext) => filename.endsWith(ext));
+}
+
+/**
+ * Finds all source files in a directory recursively
+ */
+async function findAllSourceFiles(dir: string, options: WalkOptions): Promise<string[]> {
+  const files = await walkFiles(dir, options);
+  return files.filter((file) => isSourceFile(path.basename(file)));
+}
+
+/**
+ * Resolves a file's import specifiers to the existing files they point at
+ */
+async function resolveImports(
+  file: string,
+  specifiers: string[],
+  ctx: ImportResolveContext
+): Promise<string[]> {
+  const resolver = getImportResolver(file);
+  const resolved: string[] = [];
+  if (resolver === undefined) {
+    return resolved;
+  }
+
+  for (const specifier of specifiers) {
+    // Imports may also point at files outside the root or the source walk
+    for (const resolvedPath of await resolver.resolve(specifier, file, ctx)) {
+      if (resolvedPath !== file && !resolved.includes(resolvedPath)) {
+        resolved.push(resolvedPath);
+      }
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Returns the path of the stored graph for a root directory
+ */
+function getGraphPath(cacheDir: string, root: string, options: WalkOptions): string {
+  const hash = crypto.createHash('sha256').update(root).digest('hex').substring(0, 16);
+  // Graphs including the ignored files are stored separately
+  const suffix = options.respectIgnoreFiles === false ? '_unignored' : '';
+  return path.join(
+    cacheDir,
+    `import-graph_${path.basename(root).replace(/[^a-zA-Z0-9]/g, '_')}_${hash}${suffix}.json`
+  );
+}
+
+/**
+ * Reads the stored graph for a root, or an empty graph when there is no
+ * usable stored graph
+ */
+async function readStoredGraph(graphPath: string, root: string): Promise<StoredImportGraph> {
+  try {
+    const stored = JSON.parse(await fs.readFile(graphPath, 'utf-8')) as StoredImportGraph;
+    if (stored.version === GRAPH_VERSION && stored.root === root) {
+      return stored;
+    }
+  } catch {
+    // Missing or unreadable; the graph is rebuilt from scratch
+  }
+  return { version: GRAPH_VERSION, root, files: {}, configFiles: {} };
+}
+
+/**
+ * Converts stored entries to the lookup maps used by reference queries
+ */
+function toImportGraph(root: string, files: Record<string, GraphFileEntry>): ImportGraph {
+  const graph: ImportGraph = { root, imports: new Map(), importedBy: new Map(), parts: new Map() };
+  for (const [file, entry] of Object.entries(files)) {
+    graph.imports.set(file, entry.imports);
+    graph.importedBy.set(file, entry.importedBy);
+    if (entry.parts.length > 0) {
+      graph.parts.set(file, entry.parts);
+    }
+  }
+  return graph;
+}
+
+/**
+ * Returns the root an import graph is built for: the searchable directory
+ * containing `dirPath`, so references are tracked across the whole tree
+ */
+export function findGraphRoot(dirPath: string, searchableDirectories: string[]): string {
+  return (
+    searchableDirectories.find((dir) => dirPath === dir || dirPath.startsWith(dir + path.sep)) ??
+    dirPath
+  );
+}
+
+/**
+ * Combines the graphs of several roots into one graph whose reverse edges
+ * span all of them, so a file importing a file under another root is found
+ * as its importer. The combined graph keeps the first graph's root.
+ */
+export function mergeImportGraphs(graphs: ImportGraph[]): ImportGraph {
+  const merged: ImportGraph = {
+    root: graphs[0]?.root ?? '',
+    imports: new Map(),
+    importedBy: new Map(),
+    parts: new Map(),
+  };
+
+  for (const graph of graphs) {
+    for (const [file, imports] of graph.imports) {
+      const known = merged.imports.get(file) ?? [];
+      merged.imports.set(file, [...known, ...imports.filter((f) => !known.includes(f))]);
+      merged.importedBy.set(file, []);
+    }
+    for (const [file, parts] of graph.parts) {
+      const known = merged.parts.get(file) ?? [];
+      merged.parts.set(file, [...known, ...parts.filter((f) => !known.includes(f))]);
+    }
+  }
+
+  for (const [file, imports] of merged.imports) {
+    for (const imported of imports) {
+      merged.importedBy.get(imported)?.push(file);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Loads the import graph of a root directory from `cacheDir`, re-reading
+ * only the files whose modification time or size changed since it was stored
+ */
+export async function loadImportGraph(
+  root: string,
+  cacheDir: string,
+  options: WalkOptions = {}
+): Promise<ImportGraph> {
+  const graphPath = getGraphPath(cacheDir, root, options);
+  const stored = await readStoredGraph(graphPath, root);
+  const files: Record<string, GraphFileEntry> = {};
+  const changedFiles: string[] = [];
+
+  for (const file of await findAllSourceFiles(root, options)) {
+    let stats;
+    try {
+      stats = await fs.stat(file);
+    } catch {
+      // Deleted while walking
+      continue;
+    }
+
+    const previous = stored.files[file];
+    if (previous?.mtimeMs === stats.mtimeMs && previous.size === stats.size) {
+      files[file] = previous;
+      continue;
+    }
+
+    files[file] = {
+      mtimeMs: stats.mtimeMs,
+      size: stats.size,
+      ...(await extractImports(file)),
+      imports: [],
+      parts: [],
+      importedBy: [],
+    };
+    changedFiles.push(file);
+  }
+
+  const storedFiles = Object.keys(stored.files);
+  const fileSetChanged =
+    storedFiles.length !== Object.keys(files).length ||
+    storedFiles.some((file) => files[file] === undefined);
+  const resolveAll = fileSetChanged || (await haveConfigFilesChanged(stored.configFiles));
+  if (changedFiles.length === 0 && !resolveAll) {
+    return toImportGraph(root, files);
+  }
+
+  // Whether an import resolves depends on which files exist and on project
+  // configuration, so changes to either re-resolve every file's imports
+  const configFiles = resolveAll ? {} : stored.configFiles;
+  const ctx = createResolveContext(root, files, configFiles);
+  for (const file of resolveAll ? Object.keys(files) : changedFiles) {
+    const entry = files[file]!;
+    entry.imports = await resolveImports(file, entry.specifiers, ctx);
+    entry.parts = await resolveImports(file, entry.partSpecifiers, ctx);
+  }
+
+  // Rebuild the reverse edges
+  for (const entry of Object.values(files)) {
+    entry.importedBy = [];
+  }
+  for (const [file, entry] of Object.entries(files)) {
+    for (const imported of entry.imports) {
+      files[imported]?.importedBy.push(file);
+    }
+  }
+
+  const graph: StoredImportGraph = { version: GRAPH_VERSION, root, files, configFiles };
+  try {
+    await fs.writeFile(graphPath, JSON.stringify(graph));
+  } catch (error) {
+    console.error(`Could not save import graph for ${root}:`, error);
+  }
+
+  return toImportGraph(root, files);
+}
@@ -0,0 +1,231 @@
+import * as path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import type { ImportResolveContext } from '../../types/index.js';
+import {
+  createSourceContext,
+  stringLiteralAt,
+  type MaskOptions,
+} from '../extractors/sourceScanner.js';
+import { isRecord } from './resolverUtils.js';
+
+const DART_MASK_OPTIONS: MaskOptions = {
+  lineComments: ['//'],
+  blockComment: { open: '/*', close: '*/', nested: true },
+  quotes: ["'", '"'],
+  tripleQuotes: true,
+};
+
+// `import`, `export`, `part` and `part of` directives at the start of a line
+const DIRECTIVE_PATTERN = /^[ \t]*(import|export|part(?:\s+of)?)(?=[\s'"])/gm;
+
+const PACKAGE_CONFIG = path.join('.dart_tool', 'package_config.json');
+
+/**
+ * Returns the URIs written in the directives of a Dart file, optionally only
+ * those of `part` and `part of` directives
+ */
+function extractDirectiveUris(content: string, partsOnly: boolean): string[] {
+  const ctx = createSourceContext(content, DART_MASK_OPTIONS);
+  const imports: string[] = [];
+
+  for (const match of ctx.masked.matchAll(DIRECTIVE_PATTERN)) {
+    if (partsOnly && !match[1]!.startsWith('part')) {
+      continue;
+    }
+    const start = match.index + match[0].length;
+    const end = ctx.masked.indexOf(';', start);
+
+    // `part of library.name;` names the library instead of its URI
+    for (let i = start; i < (end === -1 ? ctx.masked.length : end); i++) {
+      if (ctx.masked[i] !== "'" && ctx.masked[i] !== '"') {
+        continue;
+      }
+      const uri = stringLiteralAt(ctx, i);
+      if (uri === undefined) {
+        break;
+      }
+      if (uri !== '' && !imports.includes(uri)) {
+        imports.push(uri);
+      }
+      // Continue after the closing quote
+      i += uri.length + 1;
+    }
+  }
+
+  return imports;
+}
+
+/**
+ * Returns the URIs of a Dart file's `import`, `export`, `part` and `part of`
+ * directives, including the alternatives of conditional imports
+ */
+export function extractDartImports(content: string): string[] {
+  return extractDirectiveUris(content, false);
+}
+
+/**
+ * Returns the URIs of a Dart file's `part` and `part of` directives, which
+ * join a library and its part files into one library
+ */
+export function extractDartParts(content: string): string[] {
+  return extractDirectiveUris(content, true);
+}
+
+/**
+ * Resolves a Dart URI: `package:` URIs through the package's
+ * `.dart_tool/package_config.json` or its pubspec.yaml (including path
+ * dependencies), and other URIs relative to the importing file
+ */
+export async function resolveDartImport(
+  uri: string,
+  currentFile: string,
+  ctx: ImportResolveContext
+): Promise<string[]> {
+  let filePath: string | undefined;
+
+  if (uri.startsWith('package:')) {
+    const [packageName, ...rest] = uri.substring('package:'.length).split('/');
+    const packages = await loadPackageMap(path.dirname(currentFile), ctx);
+    const libDir = packageName !== undefined ? packages.get(packageName) : undefined;
+    if (libDir !== undefined) {
+      filePath = path.join(libDir, ...rest);
+    }
+  } else if (!/^[a-z][\w+.-]*:/i.test(uri)) {
+    // URIs without a scheme such as `dart:` are relative to the importing file
+    filePath = path.resolve(path.dirname(currentFile), uri);
+  }
+
+  return filePath !== undefined && (await ctx.isFile(filePath)) ? [filePath] : [];
+}
+
+/**
+ * Maps the package names visible from a directory to their `lib/` directories
+ */
+async function loadPackageMap(
+  fromDir: string,
+  ctx: ImportResolveContext
+): Promise<Map<string, string>> {
+  const packageDir = await ctx.findUp(fromDir, 'pubspec.yaml');
+  const configDir = await ctx.findUp(fromDir, PACKAGE_CONFIG);
+
+  return ctx.memo(`dart-packages:${packageDir ?? ''}:${configDir ?? ''}`, async () => {
+    const packages = new Map<string, string>();
+
+    if (packageDir !== undefined) {
+      for (const [name, dir] of await readPubspecPackages(packageDir, ctx)) {
+        packages.set(name, path.join(dir, 'lib'));
+      }
+    }
+
+    // The resolved configuration written by `dart pub get` takes precedence
+    if (configDir !== undefined) {
+      for (const [name, libDir] of await readPackageConfig(
+        path.join(configDir, PACKAGE_CONFIG),
+        ctx
+      )) {
+        packages.set(name, libDir);
+      }
+    }
+
+    return packages;
+  });
+}
+
+/**
+ * Reads the local packages of a package_config.json. Packages from the pub
+ * cache or the SDK have absolute root URIs and are left out, since they are
+ * not part of the project's sources
+ */
+async function readPackageConfig(
+  configPath: string,
+  ctx: ImportResolveContext
+): Promise<Map<string, string>> {
+  const packages = new Map<string, string>();
+  const config = await ctx.readJson(configPath);
+  const entries = isRecord(config) ? config['packages'] : undefined;
+  if (!Array.isArray(entries)) {
+    return packages;
+  }
+
+  // Relative root URIs are relative to the configuration file
+  const baseUrl = pathToFileURL(`${path.dirname(configPath)}/`);
+  for (const entry of entries) {
+    if (!isRecord(entry) || typeof entry['name'] !== 'string') {
+      continue;
+    }
+    const rootUri = entry['rootUri'];
+    if (typeof rootUri !== 'string' || /^[a-z][\w+.-]*:/i.test(rootUri)) {
+      continue;
+    }
+
+    const packageUri = typeof entry['packageUri'] === 'string' ? entry['packageUri'] : 'lib/';
+    const rootUrl = new URL(rootUri.endsWith('/') ? rootUri : `${rootUri}/`, baseUrl);
+    packages.set(entry['name'], fileURLToPath(new URL(packageUri, rootUrl)));
+  }
+
+  return packages;
+}
+
+/**
+ * Reads a package's name and its `path:` dependencies from pubspec.yaml,
+ * returning the directory of each package by name
+ */
+async function readPubspecPackages(
+  packageDir: string,
+  ctx: ImportResolveContext,
+  seen = new Set<string>()
+): Promise<Map<string, string>> {
+  const packages = new Map<string, string>();
+  if (seen.has(packageDir)) {
+    return packages;
+  }
+  seen.add(packageDir);
+
+  const pubspec = await ctx.readText(path.join(packageDir, 'pubspec.yaml'));
+  if (pubspec === undefined) {
+    return packages;
+  }
+
+  const name = /^name:\s*['"]?(\w+)/m.exec(pubspec)?.[1];
+  if (name !== undefined) {
+    packages.set(name, packageDir);
+  }
+
+  for (const dependencyPath of pathDependencies(pubspec)) {
+    const dependencyDir = path.resolve(packageDir, dependencyPath);
+    for (const [dependencyName, dir] of await readPubspecPackages(dependencyDir, ctx, seen)) {
+      if (!packages.has(dependencyName)) {
+        packages.set(dependencyName, dir);
+      }
+    }
+  }
+
+  return packages;
+}
+
+/**
+ * Lists the `path:` values of the dependencies declared in a pubspec
+ */
+function pathDependencies(pubspec: string): string[] {
+  const paths: string[] = [];
+  let inDependencies = false;
+
+  for (const line of pubspec.split('\n')) {
+    if (line.trim() === '' || line.trimStart().startsWith('#')) {
+      continue;
+    }
+
+    // Top-level keys start a new section
+    if (!/^\s/.test(line)) {
+      inDependencies = /^(?:dependencies|dev_dependencies|dependency_overrides):/.test(line);
+      continue;
+    }
+
+    const dependencyPath = /^\s+path:\s*['"]?([^'"#]+?)['"]?\s*(?:#.*)?$/.exec(line)?.[1];
+    if (inDependencies && dependencyPath !== undefined) {
+      paths.push(dependencyPath);
+    }
+  }
+
+  return paths;
+}
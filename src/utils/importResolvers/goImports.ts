@@ -0,0 +1,173 @@
+import * as path from 'path';
+import type { ImportResolveContext } from '../../types/index.js';
+import {
+  createSourceContext,
+  findMatching,
+  stringLiteralAt,
+  type MaskOptions,
+} from '../extractors/sourceScanner.js';
+
+const GO_MASK_OPTIONS: MaskOptions = {
+  lineComments: ['//'],
+  blockComment: { open: '/*', close: '*/' },
+  quotes: ["'", '"'],
+  rawQuotes: ['`'],
+};
+
+// `import "path"`, `import alias "path"` and `import (` groups
+const IMPORT_PATTERN = /(?<![\w.])import\s*(?:\(|(?:[\w.]+\s+)?["`])/g;
+
+/**
+ * A Go module: its path from go.mod and its directory
+ */
+interface GoModule {
+  modulePath: string;
+  dir: string;
+}
+
+/**
+ * Returns the package paths imported by a Go file
+ */
+export function extractGoImports(content: string): string[] {
+  const ctx = createSourceContext(content, GO_MASK_OPTIONS);
+  const imports: string[] = [];
+
+  for (const match of ctx.masked.matchAll(IMPORT_PATTERN)) {
+    const last = match.index + match[0].length - 1;
+    const end = ctx.masked[last] === '(' ? findMatching(ctx.masked, last) : last + 1;
+
+    for (let i = last; i < end; i++) {
+      if (ctx.masked[i] !== '"' && ctx.masked[i] !== '`') {
+        continue;
+      }
+      const importPath = stringLiteralAt(ctx, i);
+      if (importPath === undefined) {
+        break;
+      }
+      if (importPath !== '' && !imports.includes(importPath)) {
+        imports.push(importPath);
+      }
+      // Continue after the closing quote
+      i += importPath.length + 1;
+    }
+  }
+
+  return imports;
+}
+
+/**
+ * Resolves an import path to the files of the package it names, using the
+ * module path in the closest go.mod, its local `replace` directives and the
+ * modules of an enclosing go.work
+ */
+export async function resolveGoImport(
+  importPath: string,
+  currentFile: string,
+  ctx: ImportResolveContext
+): Promise<string[]> {
+  for (const goModule of await loadModules(path.dirname(currentFile), ctx)) {
+    if (importPath !== goModule.modulePath && !importPath.startsWith(`${goModule.modulePath}/`)) {
+      continue;
+    }
+
+    const packageDir = path.join(goModule.dir, importPath.slice(goModule.modulePath.length));
+    const files = await ctx.listFiles(packageDir);
+    return files
+      .filter((file) => file.endsWith('.go') && !file.endsWith('_test.go'))
+      .sort()
+      .map((file) => path.join(packageDir, file));
+  }
+  return [];
+}
+
+/**
+ * Lists the local modules visible from a directory, longest module path first
+ * so that nested modules win over their parents
+ */
+async function loadModules(fromDir: string, ctx: ImportResolveContext): Promise<GoModule[]> {
+  const moduleDir = await ctx.findUp(fromDir, 'go.mod');
+  const workDir = await ctx.findUp(fromDir, 'go.work');
+
+  return ctx.memo(`go-modules:${moduleDir ?? ''}:${workDir ?? ''}`, async () => {
+    const modules: GoModule[] = [];
+    const add = async (dir: string, modulePath?: string): Promise<void> => {
+      const declared = modulePath ?? (await readModulePath(dir, ctx));
+      if (declared !== undefined && !modules.some((m) => m.modulePath === declared)) {
+        modules.push({ modulePath: declared, dir });
+      }
+    };
+
+    if (moduleDir !== undefined) {
+      await add(moduleDir);
+      const goMod = (await ctx.readText(path.join(moduleDir, 'go.mod'))) ?? '';
+      for (const [modulePath, target] of localReplacements(goMod)) {
+        await add(path.resolve(moduleDir, target), modulePath);
+      }
+    }
+
+    if (workDir !== undefined) {
+      const goWork = (await ctx.readText(path.join(workDir, 'go.work'))) ?? '';
+      for (const usePath of directiveArguments(goWork, 'use')) {
+        await add(path.resolve(workDir, usePath));
+      }
+    }
+
+    return modules.sort((a, b) => b.modulePath.length - a.modulePath.length);
+  });
+}
+
+/**
+ * Reads the `module` path declared in a directory's go.mod
+ */
+async function readModulePath(dir: string, ctx: ImportResolveContext): Promise<string | undefined> {
+  const goMod = await ctx.readText(path.join(dir, 'go.mod'));
+  return goMod !== undefined ? directiveArguments(goMod, 'module')[0] : undefined;
+}
+
+/**
+ * Returns the arguments of each occurrence of a go.mod or go.work directive,
+ * in both the single-line and the parenthesized block form
+ */
+function directiveArguments(source: string, directive: string): string[] {
+  const args: string[] = [];
+  let inBlock = false;
+
+  for (const rawLine of source.split('\n')) {
+    const line = rawLine.replace(/\/\/.*$/, '').trim();
+    if (inBlock) {
+      if (line === ')') {
+        inBlock = false;
+      } else if (line !== '') {
+        args.push(line);
+      }
+      continue;
+    }
+
+    if (line === `${directive} (`) {
+      inBlock = true;
+    } else if (line.startsWith(`${directive} `)) {
+      args.push(line.slice(directive.length).trim());
+    }
+  }
+
+  return args.map((arg) => arg.replace(/^"|"$/g, ''));
+}
+
+/**
+ * Returns the `replace` directives of a go.mod that point at local
+ * directories, as module path and directory pairs
+ */
+function localReplacements(goMod: string): Array<[string, string]> {
+  const replacements: Array<[string, string]> = [];
+
+  for (const replacement of directiveArguments(goMod, 'replace')) {
+    const match = /^(\S+)(?:\s+\S+)?\s*=>\s*(\S+)$/.exec(replacement);
+    const target = match?.[2];
+    // Local replacements are file paths; module replacements carry a version
+    if (match !== null && target !== undefined && /^\.{1,2}(?:\/|$)|^\//.test(target)) {
+      replacements.push([match[1]!, target]);
+    }
+  }
+
+  return replacements;
+}
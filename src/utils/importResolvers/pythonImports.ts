@@ -0,0 +1,145 @@
+import * as path from 'path';
+import type { ImportResolveContext } from '../../types/index.js';
+import { createSourceContext, type MaskOptions } from '../extractors/sourceScanner.js';
+import { firstExistingFile } from './resolverUtils.js';
+
+const PYTHON_MASK_OPTIONS: MaskOptions = {
+  lineComments: ['#'],
+  quotes: ["'", '"'],
+  tripleQuotes: true,
+  maskDelimiters: true,
+};
+
+const FROM_IMPORT_PATTERN = /^[ \t]*from\s+(\.*[\w.]*)\s+import\s+(\([^)]*\)|[^\n;]*)/gm;
+const IMPORT_PATTERN = /^[ \t]*import\s+([^\n;]+)/gm;
+const MODULE_NAME = /^[A-Za-z_][\w.]*$/;
+
+// Files marking the root of a Python project
+const PROJECT_FILES = ['pyproject.toml', 'setup.py', 'setup.cfg'];
+
+/**
+ * Returns the modules named by a Python file's `import` and `from ... import`
+ * statements. Each name imported with `from` is listed as a possible
+ * submodule too (`from pkg import mod` yields `pkg` and `pkg.mod`).
+ */
+export function extractPythonImports(content: string): string[] {
+  // Line continuations would otherwise split statements
+  const masked = createSourceContext(content, PYTHON_MASK_OPTIONS).masked.replace(/\\\n/g, '  ');
+  const imports: string[] = [];
+  const add = (specifier: string): void => {
+    if (!imports.includes(specifier)) {
+      imports.push(specifier);
+    }
+  };
+
+  for (const match of masked.matchAll(FROM_IMPORT_PATTERN)) {
+    const moduleName = match[1]!;
+    if (moduleName === '') {
+      continue;
+    }
+    add(moduleName);
+
+    const names = match[2]!.replace(/[()]/g, ' ');
+    for (const item of names.split(',')) {
+      const name = item.trim().split(/\s+/)[0];
+      if (name !== undefined && name !== '*' && MODULE_NAME.test(name)) {
+        add(moduleName.endsWith('.') ? moduleName + name : `${moduleName}.${name}`);
+      }
+    }
+  }
+
+  for (const match of masked.matchAll(IMPORT_PATTERN)) {
+    for (const item of match[1]!.split(',')) {
+      const name = item.trim().split(/\s+/)[0];
+      if (name !== undefined && MODULE_NAME.test(name)) {
+        add(name);
+      }
+    }
+  }
+
+  return imports;
+}
+
+/**
+ * Resolves a module name to its `.py` file or package `__init__.py`.
+ * Relative names resolve from the importing file's package; absolute names
+ * from the top of the file's package tree, the project root and its `src/`
+ * directory, and the graph root.
+ */
+export async function resolvePythonImport(
+  moduleName: string,
+  currentFile: string,
+  ctx: ImportResolveContext
+): Promise<string[]> {
+  const dots = moduleName.length - moduleName.replace(/^\.+/, '').length;
+  const parts = moduleName
+    .slice(dots)
+    .split('.')
+    .filter((part) => part !== '');
+
+  let searchRoots: string[];
+  if (dots > 0) {
+    // One dot is the current package; each further dot goes up a level
+    let packageDir = path.dirname(currentFile);
+    for (let i = 1; i < dots; i++) {
+      packageDir = path.dirname(packageDir);
+    }
+    searchRoots = [packageDir];
+  } else {
+    searchRoots = await absoluteSearchRoots(path.dirname(currentFile), ctx);
+  }
+
+  for (const searchRoot of searchRoots) {
+    const modulePath = path.join(searchRoot, ...parts);
+    const resolved = await firstExistingFile(
+      parts.length > 0
+        ? [`${modulePath}.py`, `${modulePath}.pyi`, path.join(modulePath, '__init__.py')]
+        : [path.join(modulePath, '__init__.py')],
+      ctx
+    );
+    if (resolved !== undefined && resolved !== currentFile) {
+      return [resolved];
+    }
+  }
+  return [];
+}
+
+/**
+ * Lists the directories absolute imports may be relative to, closest first
+ */
+async function absoluteSearchRoots(fromDir: string, ctx: ImportResolveContext): Promise<string[]> {
+  const roots: string[] = [];
+  const add = (dir: string): void => {
+    if (!roots.includes(dir)) {
+      roots.push(dir);
+    }
+  };
+
+  // The directory containing the outermost package around the file
+  let packageRoot = fromDir;
+  while (
+    (await ctx.isFile(path.join(packageRoot, '__init__.py'))) &&
+    path.dirname(packageRoot) !== packageRoot
+  ) {
+    packageRoot = path.dirname(packageRoot);
+  }
+  add(packageRoot);
+
+  // The closest project root, and its src/ directory for the src layout
+  let projectDir: string | undefined;
+  for (const projectFile of PROJECT_FILES) {
+    const dir = await ctx.findUp(fromDir, projectFile);
+    if (dir !== undefined && (projectDir === undefined || dir.length > projectDir.length)) {
+      projectDir = dir;
+    }
+  }
+  if (projectDir !== undefined) {
+    add(projectDir);
+    if (await ctx.isDirectory(path.join(projectDir, 'src'))) {
+      add(path.join(projectDir, 'src'));
+    }
+  }
+
+  add(ctx.root);
+  return roots;
+}
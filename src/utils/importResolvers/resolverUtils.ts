@@ -0,0 +1,23 @@
+import type { ImportResolveContext } from '../../types/index.js';
+
+/**
+ * Checks whether a parsed JSON value is an object
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Returns the first candidate path that is an existing file
+ */
+export async function firstExistingFile(
+  candidates: string[],
+  ctx: ImportResolveContext
+): Promise<string | undefined> {
+  for (const candidate of candidates) {
+    if (await ctx.isFile(candidate)) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
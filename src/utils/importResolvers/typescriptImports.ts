@@ -0,0 +1,524 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { glob } from 'glob';
+import type { ImportResolveContext } from '../../types/index.js';
+import {
+  createSourceContext,
+  stringLiteralAt,
+  type MaskOptions,
+} from '../extractors/sourceScanner.js';
+import { firstExistingFile, isRecord } from './resolverUtils.js';
+
+const TS_MASK_OPTIONS: MaskOptions = {
+  lineComments: ['//'],
+  blockComment: { open: '/*', close: '*/' },
+  quotes: ["'", '"'],
+  templateLiterals: true,
+  regexLiterals: true,
+};
+
+// `import ... from '...'`, `export ... from '...'`, `import '...'`,
+// `import('...')` and `require('...')`, ending at the opening quote
+const IMPORT_PATTERN = /(?<![\w$.])(?:from|import|import\s*\(|require\s*\()\s*['"]/g;
+
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+// TypeScript ESM imports name the compiled JavaScript file
+const COMPILED_EXTENSIONS: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts'],
+};
+
+// Package entry points that usually point at build output rather than sources
+const BUILD_OUTPUT_DIR = /^\.?\/?(?:dist|lib|build|out)\//;
+
+/**
+ * Module resolution settings from a tsconfig.json and the files it extends
+ */
+interface CompilerPaths {
+  /** Absolute `baseUrl` */
+  baseUrl?: string;
+  paths?: Record<string, string[]>;
+  /** Directory of the config defining `paths`, used when there is no `baseUrl` */
+  pathsBase?: string;
+}
+
+/**
+ * Returns the specifiers of static imports, re-exports, dynamic imports and
+ * `require` calls with string literal arguments
+ */
+export function extractTypeScriptImports(content: string): string[] {
+  const ctx = createSourceContext(content, TS_MASK_OPTIONS);
+  const imports: string[] = [];
+
+  for (const match of ctx.masked.matchAll(IMPORT_PATTERN)) {
+    const specifier = stringLiteralAt(ctx, match.index + match[0].length - 1);
+    if (specifier !== undefined && specifier !== '' && !imports.includes(specifier)) {
+      imports.push(specifier);
+    }
+  }
+
+  return imports;
+}
+
+/**
+ * Resolves a module path the way TypeScript and Node do: trying source
+ * extensions and `index` files for relative paths, then tsconfig `paths` and
+ * `baseUrl`, then workspace packages
+ */
+export async function resolveTypeScriptImport(
+  specifier: string,
+  fromFile: string,
+  ctx: ImportResolveContext
+): Promise<string[]> {
+  const resolved = await resolveSpecifier(specifier, path.dirname(fromFile), ctx);
+  return resolved !== undefined ? [resolved] : [];
+}
+
+async function resolveSpecifier(
+  specifier: string,
+  fromDir: string,
+  ctx: ImportResolveContext
+): Promise<string | undefined> {
+  if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+    return resolveFile(path.resolve(fromDir, specifier), ctx);
+  }
+  if (specifier.startsWith('node:')) {
+    return undefined;
+  }
+
+  const config = await loadNearestTsConfig(fromDir, ctx);
+  const fromPaths = await resolveFromPaths(specifier, config, ctx);
+  if (fromPaths !== undefined) {
+    return fromPaths;
+  }
+  if (config.baseUrl !== undefined) {
+    const fromBaseUrl = await resolveFile(path.join(config.baseUrl, specifier), ctx);
+    if (fromBaseUrl !== undefined) {
+      return fromBaseUrl;
+    }
+  }
+
+  return resolvePackageImport(specifier, fromDir, ctx);
+}
+
+/**
+ * Resolves a path without extension or pointing at a directory to a file
+ */
+async function resolveFile(base: string, ctx: ImportResolveContext): Promise<string | undefined> {
+  const extension = path.extname(base);
+  const stem = base.slice(0, base.length - extension.length);
+
+  return firstExistingFile(
+    [
+      base,
+      ...(COMPILED_EXTENSIONS[extension] ?? []).map((sourceExtension) => stem + sourceExtension),
+      ...SOURCE_EXTENSIONS.map((sourceExtension) => base + sourceExtension),
+      ...SOURCE_EXTENSIONS.map((sourceExtension) => path.join(base, `index${sourceExtension}`)),
+    ],
+    ctx
+  );
+}
+
+/**
+ * Matches a specifier against a `paths` or `exports` pattern with at most
+ * one `*`, returning the text matched by the wildcard
+ */
+function matchPattern(pattern: string, specifier: string): string | undefined {
+  const star = pattern.indexOf('*');
+  if (star === -1) {
+    return pattern === specifier ? '' : undefined;
+  }
+
+  const prefix = pattern.slice(0, star);
+  const suffix = pattern.slice(star + 1);
+  if (
+    specifier.length >= prefix.length + suffix.length &&
+    specifier.startsWith(prefix) &&
+    specifier.endsWith(suffix)
+  ) {
+    return specifier.slice(prefix.length, specifier.length - suffix.length);
+  }
+  return undefined;
+}
+
+/**
+ * Finds the pattern key matching a specifier, preferring exact keys and then
+ * the longest prefix before the wildcard
+ */
+function findPatternMatch(
+  keys: string[],
+  specifier: string
+): { key: string; wildcard: string } | undefined {
+  let best: { key: string; wildcard: string; prefixLength: number } | undefined;
+
+  for (const key of keys) {
+    const wildcard = matchPattern(key, specifier);
+    if (wildcard === undefined) {
+      continue;
+    }
+    const prefixLength = key.includes('*') ? key.indexOf('*') : Infinity;
+    if (best === undefined || prefixLength > best.prefixLength) {
+      best = { key, wildcard, prefixLength };
+    }
+  }
+
+  return best;
+}
+
+async function resolveFromPaths(
+  specifier: string,
+  config: CompilerPaths,
+  ctx: ImportResolveContext
+): Promise<string | undefined> {
+  const base = config.baseUrl ?? config.pathsBase;
+  if (config.paths === undefined || base === undefined) {
+    return undefined;
+  }
+
+  const match = findPatternMatch(Object.keys(config.paths), specifier);
+  if (match === undefined) {
+    return undefined;
+  }
+
+  for (const target of config.paths[match.key] ?? []) {
+    const resolved = await resolveFile(
+      path.resolve(base, target.replace('*', match.wildcard)),
+      ctx
+    );
+    if (resolved !== undefined) {
+      return resolved;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Loads the tsconfig.json (or jsconfig.json) closest to a directory
+ */
+async function loadNearestTsConfig(
+  fromDir: string,
+  ctx: ImportResolveContext
+): Promise<CompilerPaths> {
+  for (const name of ['tsconfig.json', 'jsconfig.json']) {
+    const configDir = await ctx.findUp(fromDir, name);
+    if (configDir !== undefined) {
+      const configPath = path.join(configDir, name);
+      return ctx.memo(`tsconfig:${configPath}`, () => loadTsConfig(configPath, ctx, new Set()));
+    }
+  }
+  return {};
+}
+
+/**
+ * Reads the module resolution settings of a tsconfig, following `extends`
+ */
+async function loadTsConfig(
+  configPath: string,
+  ctx: ImportResolveContext,
+  seen: Set<string>
+): Promise<CompilerPaths> {
+  if (seen.has(configPath)) {
+    return {};
+  }
+  seen.add(configPath);
+
+  const config = await ctx.readJson(configPath);
+  if (!isRecord(config)) {
+    return {};
+  }
+
+  const configDir = path.dirname(configPath);
+  const extendsValue = config['extends'];
+  const parents = Array.isArray(extendsValue) ? extendsValue : [extendsValue];
+  let result: CompilerPaths = {};
+
+  for (const parent of parents) {
+    if (typeof parent !== 'string') {
+      continue;
+    }
+    const parentPath = await resolveExtendedConfig(parent, configDir, ctx);
+    if (parentPath !== undefined) {
+      result = { ...result, ...(await loadTsConfig(parentPath, ctx, seen)) };
+    }
+  }
+
+  const options = config['compilerOptions'];
+  if (isRecord(options)) {
+    // Both are relative to the config file that sets them
+    if (typeof options['baseUrl'] === 'string') {
+      result.baseUrl = path.resolve(configDir, options['baseUrl']);
+    }
+    const paths = options['paths'];
+    if (isRecord(paths)) {
+      result.paths = {};
+      for (const [pattern, targets] of Object.entries(paths)) {
+        if (Array.isArray(targets)) {
+          result.paths[pattern] = targets.filter((t): t is string => typeof t === 'string');
+        }
+      }
+      result.pathsBase = configDir;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Resolves the path in a tsconfig `extends`, which may name a file relative
+ * to the config or a package in node_modules
+ */
+async function resolveExtendedConfig(
+  specifier: string,
+  configDir: string,
+  ctx: ImportResolveContext
+): Promise<string | undefined> {
+  let base: string;
+  if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+    base = path.resolve(configDir, specifier);
+  } else {
+    const packagePath = path.join('node_modules', specifier);
+    const modulesDir = await ctx.findUp(configDir, packagePath);
+    if (modulesDir === undefined) {
+      return undefined;
+    }
+    base = path.join(modulesDir, packagePath);
+  }
+
+  return firstExistingFile([base, `${base}.json`, path.join(base, 'tsconfig.json')], ctx);
+}
+
+/**
+ * Splits a bare specifier into its package name and the subpath within it
+ */
+function splitPackageSpecifier(specifier: string): { name: string; subpath: string } | undefined {
+  const parts = specifier.split('/');
+  const nameLength = specifier.startsWith('@') ? 2 : 1;
+  if (parts.length < nameLength || parts.slice(0, nameLength).includes('')) {
+    return undefined;
+  }
+
+  return {
+    name: parts.slice(0, nameLength).join('/'),
+    subpath: ['.', ...parts.slice(nameLength)].join('/'),
+  };
+}
+
+async function resolvePackageImport(
+  specifier: string,
+  fromDir: string,
+  ctx: ImportResolveContext
+): Promise<string | undefined> {
+  const parsed = splitPackageSpecifier(specifier);
+  if (parsed === undefined) {
+    return undefined;
+  }
+
+  const packageDir = await findLocalPackage(parsed.name, fromDir, ctx);
+  return packageDir !== undefined
+    ? resolvePackageEntry(packageDir, parsed.subpath, ctx)
+    : undefined;
+}
+
+/**
+ * Finds the directory of a workspace package, either declared by the
+ * enclosing workspace or linked into node_modules from the local tree
+ */
+async function findLocalPackage(
+  name: string,
+  fromDir: string,
+  ctx: ImportResolveContext
+): Promise<string | undefined> {
+  const workspaceRoot = await findWorkspaceRoot(fromDir, ctx);
+  if (workspaceRoot !== undefined) {
+    const packages = await ctx.memo(`workspace:${workspaceRoot}`, () =>
+      loadWorkspacePackages(workspaceRoot, ctx)
+    );
+    const packageDir = packages.get(name);
+    if (packageDir !== undefined) {
+      return packageDir;
+    }
+  }
+
+  const packagePath = path.join('node_modules', name);
+  const modulesDir = await ctx.findUp(fromDir, packagePath);
+  if (modulesDir === undefined) {
+    return undefined;
+  }
+
+  // Installed third-party packages are not part of the local sources
+  const realPath = await fs.realpath(path.join(modulesDir, packagePath)).catch(() => undefined);
+  return realPath !== undefined && !realPath.split(path.sep).includes('node_modules')
+    ? realPath
+    : undefined;
+}
+
+/**
+ * Finds the closest directory declaring npm/yarn `workspaces` or a pnpm workspace
+ */
+async function findWorkspaceRoot(
+  fromDir: string,
+  ctx: ImportResolveContext
+): Promise<string | undefined> {
+  const pnpmRoot = await ctx.findUp(fromDir, 'pnpm-workspace.yaml');
+  let dir = fromDir;
+
+  while (true) {
+    const packageDir = await ctx.findUp(dir, 'package.json');
+    if (
+      packageDir === undefined ||
+      (pnpmRoot !== undefined && packageDir.length < pnpmRoot.length)
+    ) {
+      return pnpmRoot;
+    }
+
+    const manifest = await ctx.readJson(path.join(packageDir, 'package.json'));
+    if (isRecord(manifest) && manifest['workspaces'] !== undefined) {
+      return packageDir;
+    }
+
+    if (path.dirname(packageDir) === packageDir) {
+      return pnpmRoot;
+    }
+    dir = path.dirname(packageDir);
+  }
+}
+
+/**
+ * Maps the names of a workspace's packages to their directories
+ */
+async function loadWorkspacePackages(
+  workspaceRoot: string,
+  ctx: ImportResolveContext
+): Promise<Map<string, string>> {
+  const patterns: string[] = [];
+
+  const manifest = await ctx.readJson(path.join(workspaceRoot, 'package.json'));
+  const workspaces = isRecord(manifest) ? manifest['workspaces'] : undefined;
+  const declared = isRecord(workspaces) ? workspaces['packages'] : workspaces;
+  if (Array.isArray(declared)) {
+    patterns.push(...declared.filter((p): p is string => typeof p === 'string'));
+  }
+
+  const pnpmWorkspace = await ctx.readText(path.join(workspaceRoot, 'pnpm-workspace.yaml'));
+  if (pnpmWorkspace !== undefined) {
+    for (const match of pnpmWorkspace.matchAll(/^\s*-\s*['"]?([^'"#\n]+?)['"]?\s*$/gm)) {
+      patterns.push(match[1]!);
+    }
+  }
+
+  const packages = new Map<string, string>();
+  const manifests = await glob(
+    patterns
+      .filter((pattern) => !pattern.startsWith('!'))
+      .map((pattern) => `${pattern.replace(/\/+$/, '')}/package.json`),
+    {
+      cwd: workspaceRoot,
+      absolute: true,
+      ignore: patterns
+        .filter((pattern) => pattern.startsWith('!'))
+        .map((pattern) => pattern.slice(1))
+        .concat('**/node_modules/**'),
+    }
+  );
+
+  for (const manifestPath of manifests.sort()) {
+    const packageManifest = await ctx.readJson(manifestPath);
+    if (isRecord(packageManifest) && typeof packageManifest['name'] === 'string') {
+      packages.set(packageManifest['name'], path.dirname(manifestPath));
+    }
+  }
+
+  return packages;
+}
+
+/**
+ * Resolves a subpath (`.` for the package itself) of a local package using
+ * its `exports` map, or its entry point fields when it has none
+ */
+async function resolvePackageEntry(
+  packageDir: string,
+  subpath: string,
+  ctx: ImportResolveContext
+): Promise<string | undefined> {
+  const manifest = await ctx.readJson(path.join(packageDir, 'package.json'));
+  const exportsField = isRecord(manifest) ? manifest['exports'] : undefined;
+
+  let targets: string[];
+  if (exportsField !== undefined && exportsField !== null) {
+    targets = exportTargets(exportsField, subpath);
+  } else if (subpath === '.') {
+    targets = ['source', 'types', 'typings', 'module', 'main']
+      .map((field) => (isRecord(manifest) ? manifest[field] : undefined))
+      .filter((target): target is string => typeof target === 'string')
+      .concat('./index');
+  } else {
+    targets = [subpath];
+  }
+
+  for (const target of targets) {
+    const resolved =
+      (await resolveFile(path.resolve(packageDir, target), ctx)) ??
+      (await resolveBuildSource(packageDir, target, ctx));
+    if (resolved !== undefined) {
+      return resolved;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Lists the targets an `exports` field maps a subpath to, in condition order
+ */
+function exportTargets(exportsField: unknown, subpath: string): string[] {
+  const isSubpathMap =
+    isRecord(exportsField) && Object.keys(exportsField).some((key) => key.startsWith('.'));
+  if (!isSubpathMap) {
+    // A string, array or conditions object only exports the package root
+    return subpath === '.' ? conditionTargets(exportsField) : [];
+  }
+
+  const match = findPatternMatch(Object.keys(exportsField), subpath);
+  if (match === undefined) {
+    return [];
+  }
+  return conditionTargets(exportsField[match.key]).map((target) =>
+    target.replaceAll('*', match.wildcard)
+  );
+}
+
+/**
+ * Flattens a conditional export into its targets; every condition is kept
+ * because any of them may point at a local file
+ */
+function conditionTargets(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return [value];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(conditionTargets);
+  }
+  if (isRecord(value)) {
+    return Object.values(value).flatMap(conditionTargets);
+  }
+  return [];
+}
+
+/**
+ * Maps an entry point in unbuilt build output (e.g. `./dist/index.js`) to the
+ * matching file under `src/`
+ */
+async function resolveBuildSource(
+  packageDir: string,
+  target: string,
+  ctx: ImportResolveContext
+): Promise<string | undefined> {
+  if (!BUILD_OUTPUT_DIR.test(target)) {
+    return undefined;
+  }
+
+  const sourcePath = target.replace(BUILD_OUTPUT_DIR, 'src/').replace(/(\.d)?\.[mc]?[jt]sx?$/, '');
+  return resolveFile(path.resolve(packageDir, sourcePath), ctx);
+}
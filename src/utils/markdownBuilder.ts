@@ -1,20 +1,77 @@
 import { promises as fs } from 'fs';
 import * as path from 'path';
-import type { ExtractedCode } from '../types/index.js';
+import type {
+  CodeSymbol,
+  DependencyGraph,
+  DocTagEntry,
+  DocTags,
+  ExtractedClass,
+  ExtractedCode,
+  FileRegexMatches,
+  GraphFormat,
+  ImportCycle,
+  SourceLocation,
+  Supertype,
+} from '../types/index.js';
+import { getFenceTag } from './codeExtractor.js';
+import { formatDotGraph, formatMermaidGraph } from './graphFormatter.js';
 
 interface BuildOptions {
   directoryName: string;
   readmePath?: string;
   matchedFiles: Map<string, ExtractedCode>;
   referencingFiles?: Map<string, ExtractedCode>;
+  importedFiles?: Map<string, ExtractedCode>;
+  dependencyGraph?: DependencyGraph;
+  graphFormat?: GraphFormat;
+  importCycles?: ImportCycle[];
+  /** Searchable directory each referencing or imported file belongs to */
+  fileRoots?: Map<string, string>;
+  /** Shortest import chain from each referencing file to a matched file */
+  referenceChains?: Map<string, string[]>;
+  /** Content regex matches in each matched file */
+  regexMatches?: Map<string, FileRegexMatches>;
+  /** Whether matched files were left out at the `max_files` limit */
+  stoppedAtMaxFiles?: boolean;
+}
+
+interface FileDetails {
+  root?: string;
+  referenceChain?: string[];
+  regexMatches?: FileRegexMatches;
+}
+
+interface HierarchyEntry {
+  cls: ExtractedClass;
+  filePath: string;
+  source: 'matched' | 'referencing' | 'imported';
+}
+
+interface Subtype {
+  entry: HierarchyEntry;
+  relation: Supertype['relation'];
 }
 
 /**
  * Builds a comprehensive markdown explanation of a directory
  */
 export async function buildMarkdownExplanation(options: BuildOptions): Promise<string> {
-  const { directoryName, readmePath, matchedFiles, referencingFiles } = options;
+  const {
+    directoryName,
+    readmePath,
+    matchedFiles,
+    referencingFiles,
+    importedFiles,
+    dependencyGraph,
+    graphFormat,
+    importCycles,
+    fileRoots,
+    referenceChains,
+    regexMatches,
+    stoppedAtMaxFiles,
+  } = options;
   const sections: string[] = [];
+  const typeHierarchy = formatTypeHierarchy(matchedFiles, referencingFiles, importedFiles);
 
   // Header
   sections.push(`# Directory Analysis: ${directoryName}`);
@@ -25,11 +82,23 @@ export async function buildMarkdownExplanation(options: BuildOptions): Promise<s
   // Table of Contents
   sections.push('## Table of Contents');
   sections.push('');
-  sections.push('1. [Overview](#overview)');
-  sections.push('2. [Matched Files](#matched-files)');
+  const tocEntries = ['[Overview](#overview)', '[Matched Files](#matched-files)'];
   if (referencingFiles && referencingFiles.size > 0) {
-    sections.push('3. [Referencing Files](#referencing-files)');
+    tocEntries.push('[Referencing Files](#referencing-files)');
   }
+  if (importedFiles && importedFiles.size > 0) {
+    tocEntries.push('[Imported Files](#imported-files)');
+  }
+  if (dependencyGraph !== undefined) {
+    tocEntries.push('[Dependency Graph](#dependency-graph)');
+  }
+  if (importCycles !== undefined) {
+    tocEntries.push('[Import Cycles](#import-cycles)');
+  }
+  if (typeHierarchy !== undefined) {
+    tocEntries.push('[Type Hierarchy](#type-hierarchy)');
+  }
+  tocEntries.forEach((entry, index) => sections.push(`${index + 1}. ${entry}`));
   sections.push('');
 
   // Overview section with README
@@ -55,11 +124,17 @@ export async function buildMarkdownExplanation(options: BuildOptions): Promise<s
   // Matched Files section
   sections.push('## Matched Files');
   sections.push('');
-  sections.push(`Found ${matchedFiles.size} files matching the search patterns:`);
+  sections.push(
+    stoppedAtMaxFiles === true
+      ? `Found ${matchedFiles.size} files matching the search patterns (stopped at the \`max_files\` limit):`
+      : `Found ${matchedFiles.size} files matching the search patterns:`
+  );
   sections.push('');
 
   for (const [filePath, extractedCode] of matchedFiles) {
-    sections.push(formatFileSection(filePath, extractedCode));
+    sections.push(
+      formatFileSection(filePath, extractedCode, { regexMatches: regexMatches?.get(filePath) })
+    );
     sections.push('');
   }
 
@@ -71,36 +146,108 @@ export async function buildMarkdownExplanation(options: BuildOptions): Promise<s
     sections.push('');
 
     for (const [filePath, extractedCode] of referencingFiles) {
-      sections.push(formatFileSection(filePath, extractedCode));
+      sections.push(
+        formatFileSection(filePath, extractedCode, {
+          root: fileRoots?.get(filePath),
+          referenceChain: referenceChains?.get(filePath),
+        })
+      );
+      sections.push('');
+    }
+  }
+
+  // Imported Files section
+  if (importedFiles && importedFiles.size > 0) {
+    sections.push('## Imported Files');
+    sections.push('');
+    sections.push(`Found ${importedFiles.size} files imported by the matched files:`);
+    sections.push('');
+
+    for (const [filePath, extractedCode] of importedFiles) {
+      sections.push(formatFileSection(filePath, extractedCode, { root: fileRoots?.get(filePath) }));
       sections.push('');
     }
   }
 
+  // Dependency Graph section
+  if (dependencyGraph !== undefined) {
+    sections.push(formatDependencyGraph(dependencyGraph, graphFormat ?? 'mermaid'));
+    sections.push('');
+  }
+
+  // Import Cycles section
+  if (importCycles !== undefined) {
+    sections.push('## Import Cycles');
+    sections.push('');
+    if (importCycles.length > 0) {
+      sections.push(`Found ${importCycles.length} import cycles involving the analyzed files:`);
+      sections.push('');
+      sections.push(formatImportCycles(importCycles));
+    } else {
+      sections.push('*No import cycles involve the analyzed files*');
+    }
+    sections.push('');
+  }
+
+  // Type Hierarchy section
+  if (typeHierarchy !== undefined) {
+    sections.push(typeHierarchy);
+    sections.push('');
+  }
+
   return sections.join('\n');
 }
 
 /**
  * Formats a single file section with its extracted code
  */
-function formatFileSection(filePath: string, extractedCode: ExtractedCode): string {
+function formatFileSection(
+  filePath: string,
+  extractedCode: ExtractedCode,
+  details: FileDetails = {}
+): string {
+  const { root, referenceChain, regexMatches } = details;
   const lines: string[] = [];
   const fileName = path.basename(filePath);
   const relativePath = getRelativePath(filePath);
+  const fence = '```' + getFenceTag(extractedCode.language);
 
   lines.push(`### 📄 ${fileName}`);
   lines.push('');
   lines.push(`**Path:** \`${relativePath}\``);
+  lines.push(`**Full Path:** \`${filePath}\``);
+  if (root !== undefined) {
+    lines.push(`**Root:** \`${path.basename(root)}\` (\`${root}\`)`);
+  }
+  if (referenceChain !== undefined && referenceChain.length > 1) {
+    lines.push(`**Depth:** ${referenceChain.length - 1}`);
+    lines.push(
+      `**Import Chain:** ${referenceChain.map((file) => `\`${path.basename(file)}\``).join(' → ')}`
+    );
+  }
   lines.push('');
 
+  // Regex matches
+  if (regexMatches !== undefined && regexMatches.matches.length > 0) {
+    lines.push(formatRegexMatches(regexMatches, fence));
+    lines.push('');
+  }
+
   // Classes
   if (extractedCode.classes.length > 0) {
     lines.push('#### Classes');
     lines.push('');
 
     for (const cls of extractedCode.classes) {
-      lines.push(`##### \`${cls.name}\``);
+      const kindLabel = cls.kind !== undefined && cls.kind !== 'class' ? ` (${cls.kind})` : '';
+      lines.push(`##### \`${cls.name}\`${kindLabel}`);
       lines.push('');
 
+      if (cls.location !== undefined) {
+        lines.push(`**Location:** \`${formatLocation(relativePath, cls.location)}\``);
+        lines.push('');
+      }
+
       if (cls.documentation !== undefined) {
         lines.push('**Documentation:**');
         lines.push('```');
@@ -108,9 +255,10 @@ function formatFileSection(filePath: string, extractedCode: ExtractedCode): stri
         lines.push('```');
         lines.push('');
       }
+      lines.push(...formatDocTags(cls.docTags));
 
       lines.push('**Signature:**');
-      lines.push('```dart');
+      lines.push(fence);
       lines.push(cls.signature);
       lines.push('```');
       lines.push('');
@@ -120,20 +268,35 @@ function formatFileSection(filePath: string, extractedCode: ExtractedCode): stri
         lines.push('');
 
         for (const method of cls.methods) {
-          lines.push(`- \`${method.name}\``);
+          lines.push(`- \`${method.name}\`${formatLineSuffix(method.location)}`);
 
           if (method.documentation !== undefined) {
             lines.push('  ```');
             lines.push('  ' + method.documentation.split('\n').join('\n  '));
             lines.push('  ```');
           }
+          lines.push(...formatDocTags(method.docTags, '  '));
 
-          lines.push('  ```dart');
+          lines.push('  ' + fence);
           lines.push('  ' + method.signature);
           lines.push('  ```');
           lines.push('');
         }
       }
+
+      if (cls.fields.length > 0) {
+        lines.push('**Fields:**');
+        lines.push('');
+        lines.push(...formatSymbolList(cls.fields));
+        lines.push('');
+      }
+
+      if (cls.enumValues.length > 0) {
+        lines.push('**Enum Values:**');
+        lines.push('');
+        lines.push(...formatSymbolList(cls.enumValues));
+        lines.push('');
+      }
     }
   }
 
@@ -146,6 +309,11 @@ function formatFileSection(filePath: string, extractedCode: ExtractedCode): stri
       lines.push(`##### \`${func.name}\``);
       lines.push('');
 
+      if (func.location !== undefined) {
+        lines.push(`**Location:** \`${formatLocation(relativePath, func.location)}\``);
+        lines.push('');
+      }
+
       if (func.documentation !== undefined) {
         lines.push('**Documentation:**');
         lines.push('```');
@@ -153,24 +321,262 @@ function formatFileSection(filePath: string, extractedCode: ExtractedCode): stri
         lines.push('```');
         lines.push('');
       }
+      lines.push(...formatDocTags(func.docTags));
 
       lines.push('**Signature:**');
-      lines.push('```dart');
+      lines.push(fence);
       lines.push(func.signature);
       lines.push('```');
       lines.push('');
     }
   }
 
+  // Top-level constants and variables
+  if (extractedCode.variables.length > 0) {
+    lines.push('#### Variables');
+    lines.push('');
+    lines.push(...formatSymbolList(extractedCode.variables));
+    lines.push('');
+  }
+
   // If no code was extracted, note that
-  if (extractedCode.classes.length === 0 && extractedCode.functions.length === 0) {
-    lines.push('*No classes or functions found in this file*');
+  if (
+    extractedCode.classes.length === 0 &&
+    extractedCode.functions.length === 0 &&
+    extractedCode.variables.length === 0
+  ) {
+    lines.push('*No classes, functions or variables found in this file*');
     lines.push('');
   }
 
   return lines.join('\n');
 }
 
+/**
+ * Formats the import relationships between the found files as diagrams
+ */
+function formatDependencyGraph(graph: DependencyGraph, format: GraphFormat): string {
+  const lines = [
+    '## Dependency Graph',
+    '',
+    'Arrows point from each file to the files it imports. Depth counts the import steps from the matched files.',
+  ];
+
+  if (format !== 'dot') {
+    lines.push('', '```mermaid', formatMermaidGraph(graph), '```');
+  }
+  if (format !== 'mermaid') {
+    lines.push('', '```dot', formatDotGraph(graph), '```');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Formats each import cycle with its files and the imports that form it
+ */
+export function formatImportCycles(cycles: ImportCycle[]): string {
+  const lines: string[] = [];
+
+  cycles.forEach((cycle, index) => {
+    lines.push(`### Cycle ${index + 1} (${cycle.files.length} files)`);
+    lines.push('');
+    lines.push(
+      `**Files:** ${cycle.files.map((file) => `\`${getRelativePath(file)}\``).join(', ')}`
+    );
+    lines.push('');
+    lines.push('**Imports:**');
+    for (const [from, to] of cycle.edges) {
+      lines.push(`- \`${getRelativePath(from)}\` → \`${getRelativePath(to)}\``);
+    }
+    lines.push('');
+  });
+
+  return lines.join('\n').trimEnd();
+}
+
+/**
+ * Formats the regex matches of a file as numbered snippets, marking the
+ * matched lines with `>`
+ */
+function formatRegexMatches(regexMatches: FileRegexMatches, fence: string): string {
+  const { matches, total } = regexMatches;
+  const lines: string[] = [];
+
+  lines.push('#### Regex Matches');
+  lines.push('');
+  lines.push(
+    matches.length < total
+      ? `Showing ${matches.length} of ${total} matching lines:`
+      : `${total} matching ${total === 1 ? 'line' : 'lines'}:`
+  );
+  lines.push('');
+
+  for (const match of matches) {
+    const width = String(match.contextStart + match.lines.length - 1).length;
+    const label =
+      match.endLine > match.line ? `Lines ${match.line}-${match.endLine}` : `Line ${match.line}`;
+    lines.push(`**${label}** — \`${match.pattern}\``);
+    lines.push(fence);
+    match.lines.forEach((text, index) => {
+      const line = match.contextStart + index;
+      const marker = line >= match.line && line <= match.endLine ? '>' : ' ';
+      lines.push(`${marker} ${String(line).padStart(width)} | ${text}`);
+    });
+    lines.push('```');
+    lines.push('');
+  }
+
+  return lines.join('\n').trimEnd();
+}
+
+/**
+ * Formats the inheritance tree of the classes in the matched files, including
+ * subclasses and implementations found in referencing files and the
+ * ancestors declared in imported files
+ */
+function formatTypeHierarchy(
+  matchedFiles: Map<string, ExtractedCode>,
+  referencingFiles: Map<string, ExtractedCode> | undefined,
+  importedFiles: Map<string, ExtractedCode> | undefined
+): string | undefined {
+  const entries: HierarchyEntry[] = [];
+  const sources: Array<[HierarchyEntry['source'], Map<string, ExtractedCode> | undefined]> = [
+    ['matched', matchedFiles],
+    ['referencing', referencingFiles],
+    ['imported', importedFiles],
+  ];
+  for (const [source, files] of sources) {
+    for (const [filePath, extractedCode] of files ?? []) {
+      entries.push(...extractedCode.classes.map((cls) => ({ cls, filePath, source })));
+    }
+  }
+
+  const definitions = new Map<string, HierarchyEntry>();
+  for (const entry of entries) {
+    if (entry.source !== 'referencing' && !definitions.has(entry.cls.name)) {
+      definitions.set(entry.cls.name, entry);
+    }
+  }
+
+  // Referencing classes are relevant when they derive, directly or
+  // transitively, from a type declared in the matched files
+  const included = new Set(entries.filter((entry) => entry.source === 'matched'));
+  const relevantNames = new Set(Array.from(included, (entry) => entry.cls.name));
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const entry of entries) {
+      if (
+        entry.source === 'referencing' &&
+        !included.has(entry) &&
+        entry.cls.supertypes.some((supertype) => relevantNames.has(supertype.name))
+      ) {
+        included.add(entry);
+        relevantNames.add(entry.cls.name);
+        changed = true;
+      }
+    }
+  }
+
+  // Imported classes are relevant when a matched class derives from them
+  const ancestorNames = new Set(
+    Array.from(included)
+      .filter((entry) => entry.source === 'matched')
+      .flatMap((entry) => entry.cls.supertypes.map((supertype) => supertype.name))
+  );
+  changed = true;
+  while (changed) {
+    changed = false;
+    for (const entry of entries) {
+      if (
+        entry.source === 'imported' &&
+        !included.has(entry) &&
+        ancestorNames.has(entry.cls.name)
+      ) {
+        included.add(entry);
+        relevantNames.add(entry.cls.name);
+        entry.cls.supertypes.forEach((supertype) => ancestorNames.add(supertype.name));
+        changed = true;
+      }
+    }
+  }
+
+  const subtypes = new Map<string, Subtype[]>();
+  for (const entry of included) {
+    for (const { name, relation } of entry.cls.supertypes) {
+      // Embedding a same-named type from another package is not self-inheritance
+      if (name === entry.cls.name || (entry.source === 'referencing' && !relevantNames.has(name))) {
+        continue;
+      }
+      const list = subtypes.get(name) ?? [];
+      list.push({ entry, relation });
+      subtypes.set(name, list);
+    }
+  }
+
+  if (subtypes.size === 0) {
+    return undefined;
+  }
+
+  const lines: string[] = [];
+  const rendered = new Set<string>();
+
+  const renderChildren = (name: string, depth: number, ancestors: Set<string>): void => {
+    rendered.add(name);
+    for (const { entry, relation } of subtypes.get(name) ?? []) {
+      const childName = entry.cls.name;
+      lines.push(
+        `${'  '.repeat(depth)}- \`${childName}\` *${relation}* — \`${formatEntryLocation(entry)}\`${formatSourceNote(entry)}`
+      );
+      if (!ancestors.has(childName)) {
+        renderChildren(childName, depth + 1, new Set([...ancestors, childName]));
+      }
+    }
+  };
+
+  const childNames = new Set(
+    Array.from(subtypes.values()).flatMap((list) => list.map(({ entry }) => entry.cls.name))
+  );
+  // Roots first; types only reachable through a cycle are listed afterwards
+  const roots = [
+    ...Array.from(subtypes.keys()).filter((name) => !childNames.has(name)),
+    ...Array.from(subtypes.keys()).filter((name) => childNames.has(name)),
+  ];
+
+  for (const root of roots) {
+    if (rendered.has(root)) {
+      continue;
+    }
+    const definition = definitions.get(root);
+    lines.push(
+      definition !== undefined
+        ? `- \`${root}\` — \`${formatEntryLocation(definition)}\`${formatSourceNote(definition)}`
+        : `- \`${root}\``
+    );
+    renderChildren(root, 1, new Set([root]));
+  }
+
+  return ['## Type Hierarchy', '', ...lines].join('\n');
+}
+
+/**
+ * Notes which section a hierarchy entry outside the matched files comes from
+ */
+function formatSourceNote(entry: HierarchyEntry): string {
+  return entry.source !== 'matched' ? ` (${entry.source} file)` : '';
+}
+
+/**
+ * Formats where a hierarchy entry's class is declared
+ */
+function formatEntryLocation(entry: HierarchyEntry): string {
+  const relativePath = getRelativePath(entry.filePath);
+  return entry.cls.location !== undefined
+    ? formatLocation(relativePath, entry.cls.location)
+    : relativePath;
+}
+
 /**
  * Gets a relative path for display, removing common prefixes
  */
@@ -188,3 +594,102 @@ function getRelativePath(filePath: string): string {
   // Fall back to last 3 parts
   return parts.slice(-3).join('/');
 }
+
+/**
+ * Formats a location as `path:start-end`, or `path:line` for one-line spans
+ */
+function formatLocation(displayPath: string, location: SourceLocation): string {
+  const { startLine, endLine } = location;
+  return startLine === endLine
+    ? `${displayPath}:${startLine}`
+    : `${displayPath}:${startLine}-${endLine}`;
+}
+
+/**
+ * Formats a parameter, return value or exception as `name` (`type`) — description
+ */
+function formatTagEntry(entry: DocTagEntry): string {
+  const parts: string[] = [];
+  if (entry.name !== undefined) {
+    parts.push(`\`${entry.name}\``);
+  }
+  if (entry.type !== undefined && entry.type !== '') {
+    parts.push(entry.name !== undefined ? `(\`${entry.type}\`)` : `\`${entry.type}\``);
+  }
+  if (entry.description !== undefined && entry.description !== '') {
+    parts.push(parts.length > 0 ? `— ${entry.description}` : entry.description);
+  }
+  return parts.join(' ');
+}
+
+/**
+ * Formats a deprecation note
+ */
+function formatDeprecation(note: string): string {
+  return note !== '' ? `**Deprecated:** ${note}` : '**Deprecated**';
+}
+
+/**
+ * Formats parsed doc tags as markdown, each group followed by a blank line
+ */
+function formatDocTags(tags: DocTags | undefined, indent = ''): string[] {
+  if (tags === undefined) {
+    return [];
+  }
+
+  const lines: string[] = [];
+
+  if (tags.deprecated !== undefined) {
+    lines.push(indent + formatDeprecation(tags.deprecated));
+    lines.push('');
+  }
+
+  const groups: Array<[string, DocTagEntry[]]> = [
+    ['Parameters', tags.params],
+    ['Returns', tags.returns !== undefined ? [tags.returns] : []],
+    ['Throws', tags.throws],
+  ];
+  for (const [label, entries] of groups) {
+    if (entries.length === 0) {
+      continue;
+    }
+    lines.push(`${indent}**${label}:**`);
+    for (const entry of entries) {
+      lines.push(`${indent}- ${formatTagEntry(entry)}`);
+    }
+    lines.push('');
+  }
+
+  return lines;
+}
+
+/**
+ * Formats fields, enum values or variables as a list of signatures
+ */
+function formatSymbolList(symbols: CodeSymbol[]): string[] {
+  const lines: string[] = [];
+
+  for (const symbol of symbols) {
+    lines.push(`- \`${symbol.signature}\`${formatLineSuffix(symbol.location)}`);
+
+    if (symbol.documentation !== undefined) {
+      lines.push('  ' + symbol.documentation.split('\n').join('\n  '));
+    }
+    if (symbol.docTags?.deprecated !== undefined) {
+      lines.push('  ' + formatDeprecation(symbol.docTags.deprecated));
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Formats the line range of a member for use after its name in a list item
+ */
+function formatLineSuffix(location: SourceLocation | undefined): string {
+  if (location === undefined) {
+    return '';
+  }
+  const { startLine, endLine } = location;
+  return startLine === endLine ? ` (line ${startLine})` : ` (lines ${startLine}-${endLine})`;
+}
@@ -1,140 +1,321 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { minimatch } from 'minimatch';
+import type { FileRegexMatches } from '../types/index.js';
+import { isBinaryFile } from './binaryFiles.js';
+import { walkFiles, type WalkOptions } from './fileWalker.js';
+import {
+  getRegexSearchPoolSize,
+  runRegexSearchBatch,
+  type RegexSearchBatch,
+} from './regexSearchPool.js';
+import type { RegexFileMatch } from './regexSearchWorker.js';
+
+export interface FileFilterOptions extends WalkOptions {
+  /** Glob patterns of files to leave out, in addition to `!` patterns */
+  excludeGlobs?: string[];
+  /** Leave out files larger than this many bytes (default: 2 MB) */
+  maxFileSize?: number;
+  /** Leave out files whose content looks binary (default: true) */
+  skipBinary?: boolean;
+  /** Only keep files modified within this many milliseconds */
+  modifiedWithin?: number;
+  /** Stop once this many files are found; a content search reads no further files */
+  maxFiles?: number;
+}
+
+export type MatchMode = 'any' | 'all';
+
+export interface RegexOptions {
+  /** Regex flags such as `i`, `m`, `s` and `u` (default: `m`) */
+  flags?: string;
+  /** Whether a file must match any or all of the patterns (default: `any`) */
+  matchMode?: MatchMode;
+  /** Match the patterns as plain text rather than regular expressions */
+  literal?: boolean;
+  /** List where the patterns matched in each file, with context lines around each match */
+  listMatches?: { contextLines: number; maxMatches: number };
+}
+
+/**
+ * The files found by `findMatchingFiles`
+ */
+export interface MatchingFiles {
+  files: string[];
+  /** Where the regex patterns matched in each file, when `listMatches` is given */
+  regexMatches: Map<string, FileRegexMatches>;
+  /** Whether more files matched than `maxFiles` and the search stopped there */
+  stoppedEarly: boolean;
+}
+
+// Files searched per worker task
+const SEARCH_BATCH_SIZE = 64;
+
+// Files larger than this are left out unless a `maxFileSize` is given
+export const DEFAULT_MAX_FILE_SIZE = 2 * 1024 * 1024;
+
+const DURATION_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Checks whether a relative path matches any of the glob patterns
+ */
+function matchesAnyGlob(relativePath: string, patterns: string[]): boolean {
+  for (const pattern of patterns) {
+    try {
+      if (minimatch(relativePath, pattern, { dot: true, matchBase: true })) {
+        return true;
+      }
+    } catch (error) {
+      console.error(`Invalid glob pattern "${pattern}": ${(error as Error).message}`);
+    }
+  }
+  return false;
+}
 
 /**
- * Find files by glob patterns recursively
+ * Find files by glob patterns recursively. Patterns starting with `!`
+ * exclude the files they match, as do `excludeGlobs`; when only exclusions
+ * are given, every other file is included.
  * @param basePath Base directory to search from
  * @param patterns Array of glob patterns
+ * @param options Directory walk options and exclude patterns
  * @returns Array of absolute file paths matching any of the patterns
  */
-export async function findFilesByGlob(basePath: string, patterns: string[]): Promise<string[]> {
+export async function findFilesByGlob(
+  basePath: string,
+  patterns: string[],
+  options: FileFilterOptions = {}
+): Promise<string[]> {
   if (patterns.length === 0) {
     return [];
   }
 
-  const matchedFiles = new Set<string>();
+  const includes = patterns.filter((pattern) => !pattern.startsWith('!'));
+  const excludes = [
+    ...patterns.filter((pattern) => pattern.startsWith('!')).map((pattern) => pattern.slice(1)),
+    ...(options.excludeGlobs ?? []),
+  ];
+  if (includes.length === 0) {
+    includes.push('**/*');
+  }
 
-  async function walkDirectory(dirPath: string): Promise<void> {
-    try {
-      const entries = await fs.readdir(dirPath, { withFileTypes: true });
+  const matchedFiles: string[] = [];
 
-      await Promise.all(
-        entries.map(async (entry) => {
-          const fullPath = path.join(dirPath, entry.name);
+  for (const fullPath of await walkFiles(basePath, options)) {
+    const relativePath = path.relative(basePath, fullPath);
 
-          if (entry.isDirectory()) {
-            // Skip node_modules and hidden directories
-            if (!entry.name.startsWith('.') && entry.name !== 'node_modules') {
-              await walkDirectory(fullPath);
-            }
-          } else if (entry.isFile()) {
-            const relativePath = path.relative(basePath, fullPath);
-
-            // Check if file matches any pattern
-            for (const pattern of patterns) {
-              try {
-                if (minimatch(relativePath, pattern, { dot: true, matchBase: true })) {
-                  matchedFiles.add(fullPath);
-                  break; // No need to check other patterns
-                }
-              } catch (error) {
-                console.error(`Invalid glob pattern "${pattern}": ${(error as Error).message}`);
-              }
-            }
-          }
-        })
-      );
-    } catch (error) {
-      console.error(`Error reading directory ${dirPath}: ${(error as Error).message}`);
+    if (matchesAnyGlob(relativePath, includes) && !matchesAnyGlob(relativePath, excludes)) {
+      matchedFiles.push(fullPath);
     }
   }
 
-  await walkDirectory(basePath);
-  return Array.from(matchedFiles).sort();
+  return matchedFiles;
 }
 
 /**
- * Search file contents using regex patterns
- * @param files Array of file paths to search
- * @param patterns Array of regex patterns
- * @returns Array of file paths containing matches for any pattern
+ * Parses a duration such as `30m`, `12h`, `7d` or `2w` into milliseconds
  */
-export async function searchFilesByRegex(files: string[], patterns: string[]): Promise<string[]> {
-  if (files.length === 0 || patterns.length === 0) {
-    return [];
+export function parseDuration(duration: string): number {
+  const match = /^(\d+)\s*([mhdw])$/.exec(duration.trim());
+  if (match === null) {
+    throw new Error(`Invalid duration "${duration}"; use a number followed by m, h, d or w`);
   }
+  return Number(match[1]) * DURATION_UNITS[match[2]!]!;
+}
 
-  const matchedFiles = new Set<string>();
-  const compiledPatterns: RegExp[] = [];
+/**
+ * Drops the files that are too large, too old or binary
+ * @param files Array of file paths to filter
+ * @param options Size, modification time and binary filters
+ * @returns The files passing every filter
+ */
+export async function applyFileFilters(
+  files: string[],
+  options: FileFilterOptions
+): Promise<string[]> {
+  const skipBinary = options.skipBinary ?? true;
+  const maxFileSize = options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+  const modifiedAfter =
+    options.modifiedWithin !== undefined ? Date.now() - options.modifiedWithin : undefined;
+  const kept: string[] = [];
+
+  for (const filePath of files) {
+    try {
+      const stats = await fs.stat(filePath);
+      if (stats.size > maxFileSize) {
+        continue;
+      }
+      if (modifiedAfter !== undefined && stats.mtimeMs < modifiedAfter) {
+        continue;
+      }
+      if (skipBinary && (await isBinaryFile(filePath))) {
+        continue;
+      }
+      kept.push(filePath);
+    } catch {
+      // Deleted or unreadable
+    }
+  }
+
+  return kept;
+}
+
+/**
+ * Compiles the regex patterns of a request, skipping invalid ones. `g` and
+ * `y` are left out of the flags, as they make `test()` stateful; matching
+ * that needs them adds them to a copy.
+ */
+export function compileRegexPatterns(
+  patterns: string[],
+  options: RegexOptions = {}
+): Array<{ pattern: string; regex: RegExp }> {
+  const flags = Array.from(new Set((options.flags ?? 'm').replace(/[gy]/g, ''))).join('');
+  const compiled: Array<{ pattern: string; regex: RegExp }> = [];
 
-  // Compile regex patterns
   for (const pattern of patterns) {
+    const source = options.literal === true ? escapeRegex(pattern) : pattern;
     try {
-      compiledPatterns.push(new RegExp(pattern, 'gm'));
+      compiled.push({ pattern, regex: new RegExp(source, flags) });
     } catch (error) {
       console.error(`Invalid regex pattern "${pattern}": ${(error as Error).message}`);
     }
   }
 
-  if (compiledPatterns.length === 0) {
-    return [];
-  }
+  return compiled;
+}
 
-  // Search files in parallel with concurrency limit
-  const CONCURRENCY_LIMIT = 10;
-  const chunks: string[][] = [];
+/**
+ * Escapes the characters that have a meaning in regular expressions
+ */
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
 
-  for (let i = 0; i < files.length; i += CONCURRENCY_LIMIT) {
-    chunks.push(files.slice(i, i + CONCURRENCY_LIMIT));
+/**
+ * Streams the files whose contents satisfy the regex patterns. The files are
+ * searched in batches on the worker pool, with a bounded number of batches in
+ * flight, and each match is yielded as soon as its batch completes; stopping
+ * the iteration takes the batches no worker has started off the pool queue. Files larger than the size
+ * limit, binary files unless `skipBinary` is false and files
+ * older than `modifiedWithin` are not read. With `listMatches`, the workers
+ * also list the matched lines of each file they read.
+ * @param files Array of file paths to search
+ * @param patterns Array of regex patterns
+ * @param options Flags, literal matching, whether any or all patterns must match and match listing
+ * @param filters Size, modification time and binary filters
+ * @returns The matching files, in the order their batches complete
+ */
+export async function* streamRegexSearch(
+  files: string[],
+  patterns: string[],
+  options: RegexOptions = {},
+  filters: FileFilterOptions = {}
+): AsyncGenerator<RegexFileMatch> {
+  const compiledPatterns = compileRegexPatterns(patterns, options);
+  if (files.length === 0 || compiledPatterns.length === 0) {
+    return;
   }
 
-  for (const chunk of chunks) {
-    await Promise.all(
-      chunk.map(async (filePath) => {
-        try {
-          // Check if file exists and is readable
-          const stats = await fs.stat(filePath);
-          if (!stats.isFile()) {
-            return;
-          }
-
-          // Read file content
-          const content = await fs.readFile(filePath, 'utf-8');
-
-          // Check if content matches any pattern
-          for (const pattern of compiledPatterns) {
-            if (pattern.test(content)) {
-              matchedFiles.add(filePath);
-              break; // No need to check other patterns
+  const batch: RegexSearchBatch = {
+    files: [],
+    patterns: compiledPatterns.map(({ pattern, regex }) => ({
+      pattern,
+      source: regex.source,
+      flags: regex.flags,
+    })),
+    matchMode: options.matchMode ?? 'any',
+    listMatches: options.listMatches,
+    maxFileSize: filters.maxFileSize ?? DEFAULT_MAX_FILE_SIZE,
+    skipBinary: filters.skipBinary ?? true,
+    modifiedAfter:
+      filters.modifiedWithin !== undefined ? Date.now() - filters.modifiedWithin : undefined,
+  };
+
+  // Enough batches to keep every worker busy while results are consumed
+  const maxInFlight = getRegexSearchPoolSize() * 2;
+  const inFlight = new Map<number, Promise<{ key: number; matched: RegexFileMatch[] }>>();
+  const cancelled = new AbortController();
+  let nextFile = 0;
+  let nextKey = 0;
+
+  try {
+    while (nextFile < files.length || inFlight.size > 0) {
+      while (nextFile < files.length && inFlight.size < maxInFlight) {
+        const key = nextKey++;
+        const batchFiles = files.slice(nextFile, nextFile + SEARCH_BATCH_SIZE);
+        nextFile += batchFiles.length;
+        inFlight.set(
+          key,
+          runRegexSearchBatch({ ...batch, files: batchFiles }, cancelled.signal).then(
+            (matched) => ({ key, matched }),
+            (error: unknown) => {
+              if (!cancelled.signal.aborted) {
+                console.error(`Regex search failed: ${(error as Error).message}`);
+              }
+              return { key, matched: [] };
             }
-          }
-        } catch (error) {
-          // Skip files that can't be read (binary files, permission issues, etc.)
-          const err = error as NodeJS.ErrnoException;
-          if (err.code !== 'ENOENT' && err.code !== 'EISDIR') {
-            console.error(`Could not read file ${filePath}: ${err.message}`);
-          }
-        }
-      })
-    );
+          )
+        );
+      }
+
+      const { key, matched } = await Promise.race(inFlight.values());
+      inFlight.delete(key);
+      yield* matched;
+    }
+  } finally {
+    // When the consumer stops early, the queued batches of this search are
+    // dropped so they do not hold up other searches
+    cancelled.abort();
   }
+}
 
-  return Array.from(matchedFiles).sort();
+/**
+ * Search file contents using regex patterns
+ * @param files Array of file paths to search
+ * @param patterns Array of regex patterns
+ * @param options Flags, literal matching and whether any or all patterns must match
+ * @param filters Size, modification time and binary filters
+ * @returns Array of file paths whose contents satisfy the patterns
+ */
+export async function searchFilesByRegex(
+  files: string[],
+  patterns: string[],
+  options: RegexOptions = {},
+  filters: FileFilterOptions = {}
+): Promise<string[]> {
+  const matchedFiles: string[] = [];
+  for await (const { filePath } of streamRegexSearch(files, patterns, options, filters)) {
+    matchedFiles.push(filePath);
+  }
+  return matchedFiles.sort();
 }
 
 /**
- * Find files matching either glob patterns OR containing regex matches
+ * Find files matching the glob patterns and, when regex patterns are given,
+ * whose contents match them. With `maxFiles`, the content search stops as
+ * soon as one more than that many matches have streamed in, so the files kept
+ * are the first found rather than the first in path order, and `stoppedEarly`
+ * tells whether any matching file was left out.
  * @param basePath Base directory to search from
  * @param globs Optional array of glob patterns for file paths
  * @param regex Optional array of regex patterns for file contents
- * @returns Array of file paths matching either condition
+ * @param options Directory walk options, exclude patterns, file filters and file limit
+ * @param regexOptions Flags, literal matching, match mode and match listing for the regex patterns
+ * @returns The file paths matching the conditions, where the regex patterns matched in them and
+ * whether the file limit was reached
  */
 export async function findMatchingFiles(
   basePath: string,
   globs?: string[],
-  regex?: string[]
-): Promise<string[]> {
+  regex?: string[],
+  options: FileFilterOptions = {},
+  regexOptions: RegexOptions = {}
+): Promise<MatchingFiles> {
   // Validate base path
   try {
     const stats = await fs.stat(basePath);
@@ -149,34 +330,40 @@ export async function findMatchingFiles(
     throw error;
   }
 
-  const allMatchedFiles = new Set<string>();
-
-  // Find files by glob patterns
-  if (globs !== undefined && globs.length > 0) {
-    const globMatches = await findFilesByGlob(basePath, globs);
-    globMatches.forEach((file) => allMatchedFiles.add(file));
+  // If neither globs nor regex provided, nothing matches
+  const regexMatches = new Map<string, FileRegexMatches>();
+  if ((globs === undefined || globs.length === 0) && (regex === undefined || regex.length === 0)) {
+    return { files: [], regexMatches, stoppedEarly: false };
   }
 
-  // Find files by regex content search
+  // Without globs the content search covers every file in the directory
+  const globMatches = await findFilesByGlob(
+    basePath,
+    globs !== undefined && globs.length > 0 ? globs : ['**/*'],
+    options
+  );
+
+  // The content patterns narrow the files matched by the globs; the search
+  // workers apply the file filters before reading each file
   if (regex !== undefined && regex.length > 0) {
-    let filesToSearch: string[];
-
-    if (globs !== undefined && globs.length > 0) {
-      // If globs are specified, only search within those files
-      filesToSearch = Array.from(allMatchedFiles);
-    } else {
-      // Otherwise, search all files in the directory
-      filesToSearch = await findFilesByGlob(basePath, ['**/*']);
+    const matchedFiles: string[] = [];
+    for await (const match of streamRegexSearch(globMatches, regex, regexOptions, options)) {
+      // One match past the limit shows that files were left out
+      if (options.maxFiles !== undefined && matchedFiles.length >= options.maxFiles) {
+        return { files: matchedFiles.sort(), regexMatches, stoppedEarly: true };
+      }
+      matchedFiles.push(match.filePath);
+      if (match.matches !== undefined) {
+        regexMatches.set(match.filePath, match.matches);
+      }
     }
-
-    const regexMatches = await searchFilesByRegex(filesToSearch, regex);
-    regexMatches.forEach((file) => allMatchedFiles.add(file));
-  }
-
-  // If neither globs nor regex provided, return empty array
-  if ((globs === undefined || globs.length === 0) && (regex === undefined || regex.length === 0)) {
-    return [];
+    return { files: matchedFiles.sort(), regexMatches, stoppedEarly: false };
   }
 
-  return Array.from(allMatchedFiles).sort();
+  const filteredFiles = (await applyFileFilters(globMatches, options)).sort();
+  return {
+    files: filteredFiles.slice(0, options.maxFiles),
+    regexMatches,
+    stoppedEarly: options.maxFiles !== undefined && filteredFiles.length > options.maxFiles,
+  };
 }
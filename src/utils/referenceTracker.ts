@@ -1,160 +1,119 @@
-import { promises as fs } from 'fs';
-import * as path from 'path';
+import type { DependencyGraph, DependencyNode, ImportCycle } from '../types/index.js';
+import type { ImportGraph } from './importGraph.js';
 
-interface FileReference {
+export interface FileReference {
   file: string;
+  /** Files in the result that this file imports */
   imports: string[];
   depth: number;
 }
 
 /**
- * Extracts import statements from a file
+ * Finds all files that reference the given files
  */
-async function extractImports(filePath: string): Promise<string[]> {
-  try {
-    const content = await fs.readFile(filePath, 'utf-8');
-    const imports: string[] = [];
-
-    // Match import statements
-    const importRegex = /^import\s+['"]([^'"]+)['"]/gm;
-    let match;
-
-    while ((match = importRegex.exec(content)) !== null) {
-      const importPath = match[1];
-      if (importPath !== undefined) {
-        imports.push(importPath);
-      }
-    }
+export function findReferencingFiles(
+  graph: ImportGraph,
+  targetFiles: string[],
+  maxDepth: number = -1
+): Map<string, FileReference> {
+  const references = new Map<string, FileReference>();
 
-    return imports;
-  } catch (error) {
-    console.error(`Could not read imports from ${filePath}:`, error);
-    return [];
+  // Initialize with target files at depth 0
+  for (const file of targetFiles) {
+    references.set(file, { file, imports: [], depth: 0 });
   }
-}
 
-/**
- * Resolves an import path to an absolute file path
- */
-async function resolveImportPath(
-  importPath: string,
-  currentFile: string,
-  projectRoot: string
-): Promise<string | null> {
-  // Handle module imports (e.g., package:module_name/... for Dart)
-  if (importPath.startsWith('package:')) {
-    const parts = importPath.substring(8).split('/');
-    const moduleName = parts[0];
-    const filePath = parts.slice(1).join('/');
-
-    // Check if it's importing from the current module
-    const currentModule = path.basename(path.dirname(path.dirname(currentFile)));
-    if (moduleName === currentModule) {
-      return path.join(projectRoot, moduleName, 'lib', filePath);
+  let filesToSearch = [...targetFiles];
+  let currentDepth = 1;
+
+  while (filesToSearch.length > 0 && (maxDepth === -1 || currentDepth <= maxDepth)) {
+    const foundAtThisDepth: string[] = [];
+
+    for (const file of filesToSearch) {
+      for (const importer of graph.importedBy.get(file) ?? []) {
+        if (!references.has(importer)) {
+          references.set(importer, { file: importer, imports: [], depth: currentDepth });
+          foundAtThisDepth.push(importer);
+        }
+      }
     }
 
-    // For external modules, we can't resolve them in local files
-    return null;
+    // Prepare for next depth
+    filesToSearch = foundAtThisDepth;
+    currentDepth++;
   }
 
-  // Handle relative imports
-  if (importPath.startsWith('.')) {
-    const dir = path.dirname(currentFile);
-    return path.resolve(dir, importPath);
+  // Record which files from the previous depths each referencing file imports
+  for (const ref of references.values()) {
+    if (ref.depth > 0) {
+      ref.imports = (graph.imports.get(ref.file) ?? []).filter(
+        (f) => (references.get(f)?.depth ?? ref.depth) < ref.depth
+      );
+    }
   }
 
-  // Handle absolute imports from lib/
-  if (!importPath.startsWith('/')) {
-    // Find the project root (directory containing pubspec.yaml or package.json)
-    let currentDir = path.dirname(currentFile);
-    let packageDir = null;
-
-    while (currentDir !== path.dirname(currentDir)) {
-      try {
-        const pubspecPath = path.join(currentDir, 'pubspec.yaml');
-        const pubspecExists = await fs
-          .access(pubspecPath)
-          .then(() => true)
-          .catch(() => false);
-        if (pubspecExists) {
-          packageDir = currentDir;
-          break;
-        }
-      } catch {
-        // Continue searching
-      }
-      currentDir = path.dirname(currentDir);
-    }
+  return references;
+}
 
-    if (packageDir !== null) {
-      return path.join(packageDir, 'lib', importPath);
+/**
+ * Returns the shortest import chain from a referencing file back to a
+ * matched file, following the imports recorded by `findReferencingFiles`.
+ * The chain starts with the file and ends with the matched file.
+ */
+export function findReferenceChain(references: Map<string, FileReference>, file: string): string[] {
+  const chain = [file];
+  let current = references.get(file);
+
+  while (current !== undefined && current.depth > 0) {
+    // Each step goes exactly one depth closer to the matched files
+    const depth = current.depth - 1;
+    const next = current.imports.find((f) => references.get(f)?.depth === depth);
+    if (next === undefined) {
+      break;
     }
+    chain.push(next);
+    current = references.get(next);
   }
 
-  return null;
+  return chain;
 }
 
 /**
- * Finds all files that reference the given files
+ * Finds all files imported by the given files, following their imports
+ * transitively up to `maxDepth` levels
  */
-export async function findReferencingFiles(
-  targetFiles: string[],
-  projectRoot: string,
+export function findImportedFiles(
+  graph: ImportGraph,
+  sourceFiles: string[],
   maxDepth: number = -1
-): Promise<Map<string, FileReference>> {
+): Map<string, FileReference> {
   const references = new Map<string, FileReference>();
-  const processed = new Set<string>();
-  // const toProcess: FileReference[] = [];
 
-  // Initialize with target files at depth 0
-  for (const file of targetFiles) {
+  // Initialize with source files at depth 0
+  for (const file of sourceFiles) {
     references.set(file, { file, imports: [], depth: 0 });
-    processed.add(file);
   }
 
-  // Start searching from depth 1
+  let filesToSearch = [...sourceFiles];
   let currentDepth = 1;
 
-  while (maxDepth === -1 || currentDepth <= maxDepth) {
-    const filesToSearch = await findAllSourceFiles(projectRoot);
-    const foundAtThisDepth: FileReference[] = [];
+  while (filesToSearch.length > 0 && (maxDepth === -1 || currentDepth <= maxDepth)) {
+    const foundAtThisDepth: string[] = [];
 
-    // Check each file to see if it imports any of our tracked files
     for (const file of filesToSearch) {
-      if (processed.has(file)) {
-        continue;
-      }
+      const imports = graph.imports.get(file) ?? [];
+      references.get(file)!.imports = imports;
 
-      const imports = await extractImports(file);
-      const importedTrackedFiles: string[] = [];
-
-      for (const importPath of imports) {
-        const resolvedPath = await resolveImportPath(importPath, file, projectRoot);
-
-        if (resolvedPath !== null && references.has(resolvedPath)) {
-          importedTrackedFiles.push(resolvedPath);
+      for (const imported of imports) {
+        if (!references.has(imported)) {
+          references.set(imported, { file: imported, imports: [], depth: currentDepth });
+          foundAtThisDepth.push(imported);
         }
       }
-
-      if (importedTrackedFiles.length > 0) {
-        const ref: FileReference = {
-          file,
-          imports: importedTrackedFiles,
-          depth: currentDepth,
-        };
-
-        references.set(file, ref);
-        processed.add(file);
-        foundAtThisDepth.push(ref);
-      }
-    }
-
-    // If no new files found at this depth, we're done
-    if (foundAtThisDepth.length === 0) {
-      break;
     }
 
     // Prepare for next depth
+    filesToSearch = foundAtThisDepth;
     currentDepth++;
   }
 
@@ -162,63 +121,132 @@ export async function findReferencingFiles(
 }
 
 /**
- * Checks if a file is a source file
+ * Combines the matched files and the references found in either direction
+ * into the nodes and import edges of a dependency diagram
  */
-function isSourceFile(filename: string): boolean {
-  const sourceExtensions = [
-    '.dart',
-    '.js',
-    '.jsx',
-    '.ts',
-    '.tsx',
-    '.py',
-    '.java',
-    '.kt',
-    '.swift',
-    '.go',
-    '.rs',
-    '.rb',
-    '.php',
-    '.cpp',
-    '.c',
-    '.h',
-    '.cs',
+export function buildDependencyGraph(
+  matchedFiles: string[],
+  references: Map<string, FileReference> | undefined,
+  imports: Map<string, FileReference> | undefined
+): DependencyGraph {
+  const nodes = new Map<string, DependencyNode>();
+  for (const file of matchedFiles) {
+    nodes.set(file, { file, role: 'matched', depth: 0 });
+  }
+  const sources: Array<[DependencyNode['role'], Map<string, FileReference> | undefined]> = [
+    ['referencing', references],
+    ['imported', imports],
   ];
-  return sourceExtensions.some((ext) => filename.endsWith(ext));
+  for (const [role, refs] of sources) {
+    for (const ref of refs?.values() ?? []) {
+      if (!nodes.has(ref.file)) {
+        nodes.set(ref.file, { file: ref.file, role, depth: ref.depth });
+      }
+    }
+  }
+
+  const edges: Array<[string, string]> = [];
+  const seen = new Set<string>();
+  for (const [, refs] of sources) {
+    for (const ref of refs?.values() ?? []) {
+      for (const imported of ref.imports) {
+        const key = `${ref.file}\0${imported}`;
+        if (nodes.has(imported) && !seen.has(key)) {
+          seen.add(key);
+          edges.push([ref.file, imported]);
+        }
+      }
+    }
+  }
+
+  return { nodes: Array.from(nodes.values()), edges };
 }
 
 /**
- * Finds all source files in a directory recursively
+ * Finds the import cycles in a graph as its strongly connected components
+ * (Tarjan's algorithm), each with the import edges between its files
  */
-async function findAllSourceFiles(dir: string): Promise<string[]> {
-  const sourceFiles: string[] = [];
-
-  async function walk(currentDir: string): Promise<void> {
-    try {
-      const entries = await fs.readdir(currentDir, { withFileTypes: true });
-
-      for (const entry of entries) {
-        const fullPath = path.join(currentDir, entry.name);
-
-        if (entry.isDirectory()) {
-          // Skip hidden directories and common non-source directories
-          if (
-            !entry.name.startsWith('.') &&
-            entry.name !== 'node_modules' &&
-            entry.name !== 'build' &&
-            entry.name !== '.dart_tool'
-          ) {
-            await walk(fullPath);
-          }
-        } else if (entry.isFile() && isSourceFile(entry.name)) {
-          sourceFiles.push(fullPath);
+export function findImportCycles(graph: ImportGraph): ImportCycle[] {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: ImportCycle[] = [];
+  let nextIndex = 0;
+
+  // Only files of the graph can be part of a cycle. Part directives join a
+  // library and its parts into one unit, so they do not form cycles.
+  const successors = (file: string): string[] => {
+    const parts = graph.parts.get(file) ?? [];
+    return (graph.imports.get(file) ?? []).filter(
+      (imported) => graph.imports.has(imported) && !parts.includes(imported)
+    );
+  };
+
+  for (const start of graph.imports.keys()) {
+    if (index.has(start)) {
+      continue;
+    }
+
+    // Depth-first search with an explicit stack, as import chains can be long
+    const frames: Array<{ file: string; targets: string[]; next: number }> = [];
+    const visit = (file: string): void => {
+      index.set(file, nextIndex);
+      lowLink.set(file, nextIndex);
+      nextIndex++;
+      stack.push(file);
+      onStack.add(file);
+      frames.push({ file, targets: successors(file), next: 0 });
+    };
+    visit(start);
+
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1]!;
+      if (frame.next < frame.targets.length) {
+        const target = frame.targets[frame.next++]!;
+        if (!index.has(target)) {
+          visit(target);
+        } else if (onStack.has(target)) {
+          lowLink.set(frame.file, Math.min(lowLink.get(frame.file)!, index.get(target)!));
         }
+        continue;
+      }
+
+      frames.pop();
+      const parent = frames[frames.length - 1];
+      if (parent !== undefined) {
+        lowLink.set(parent.file, Math.min(lowLink.get(parent.file)!, lowLink.get(frame.file)!));
+      }
+      if (lowLink.get(frame.file) !== index.get(frame.file)) {
+        continue;
+      }
+
+      // `frame.file` is the root of a component; its members are on the stack
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== frame.file);
+
+      if (component.length > 1) {
+        const files = component.sort();
+        const members = new Set(files);
+        const edges = files.flatMap((file) =>
+          successors(file)
+            .filter((imported) => members.has(imported))
+            .map((imported): [string, string] => [file, imported])
+        );
+        cycles.push({ files, edges });
       }
-    } catch (error) {
-      console.error(`Could not read directory ${currentDir}:`, error);
     }
   }
 
-  await walk(dir);
-  return sourceFiles;
+  // Largest cycles first
+  return cycles.sort((a, b) =>
+    a.files.length !== b.files.length
+      ? b.files.length - a.files.length
+      : a.files[0]!.localeCompare(b.files[0]!)
+  );
 }
@@ -0,0 +1,194 @@
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { Worker } from 'worker_threads';
+import {
+  searchBatch,
+  type RegexFileMatch,
+  type RegexSearchResult,
+  type RegexSearchTask,
+  type RegexWorkerReady,
+} from './regexSearchWorker.js';
+
+export type RegexSearchBatch = Omit<RegexSearchTask, 'id'>;
+
+interface QueuedBatch {
+  task: RegexSearchTask;
+  resolve: (matched: RegexFileMatch[]) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  /** Whether the worker script has loaded and the worker accepts tasks */
+  ready: boolean;
+  current?: QueuedBatch;
+}
+
+// Leave a core for the main thread, which keeps serving other tool calls
+const POOL_SIZE = Math.max(1, Math.min(4, os.availableParallelism() - 1));
+
+// The worker is compiled next to this module; under tsx it is the .ts source
+const WORKER_EXTENSION = path.extname(fileURLToPath(import.meta.url));
+const WORKER_URL = new URL(`./regexSearchWorker${WORKER_EXTENSION}`, import.meta.url);
+
+const workers: PoolWorker[] = [];
+const queue: QueuedBatch[] = [];
+let nextTaskId = 0;
+// Set when a worker cannot be started; batches then run on the main thread
+let workersUnavailable = false;
+
+/**
+ * Creates a worker thread running the worker script. Loader hooks are not
+ * inherited by workers, so a .ts worker first registers tsx itself.
+ */
+function createWorker(): Worker {
+  if (WORKER_EXTENSION !== '.ts') {
+    return new Worker(WORKER_URL);
+  }
+  const tsxApi = import.meta.resolve('tsx/esm/api');
+  return new Worker(
+    `import(${JSON.stringify(tsxApi)}).then(({ register }) => {
+      register();
+      return import(${JSON.stringify(WORKER_URL.href)});
+    });`,
+    { eval: true }
+  );
+}
+
+/**
+ * Starts a worker and wires its results and failures back to the queue
+ */
+function startWorker(): PoolWorker | undefined {
+  let worker: Worker;
+  try {
+    worker = createWorker();
+  } catch (error) {
+    console.error(`Could not start regex search worker: ${(error as Error).message}`);
+    workersUnavailable = true;
+    return undefined;
+  }
+
+  const entry: PoolWorker = { worker, ready: false };
+
+  worker.on('message', (message: RegexSearchResult | RegexWorkerReady) => {
+    if ('ready' in message) {
+      entry.ready = true;
+      return;
+    }
+    const result = message;
+    const batch = entry.current;
+    entry.current = undefined;
+    worker.unref();
+    if (batch !== undefined) {
+      if (result.error !== undefined) {
+        batch.reject(new Error(result.error));
+      } else {
+        batch.resolve(result.matched);
+      }
+    }
+    dispatch();
+  });
+
+  // A worker that crashes on a batch, e.g. running out of memory, fails that
+  // batch and is replaced on the next dispatch. Only when a worker fails
+  // before its script has loaded can workers not run here at all: its batch is
+  // queued again and all batches run on the main thread.
+  const fail = (error: Error): void => {
+    const index = workers.indexOf(entry);
+    if (index === -1) {
+      return;
+    }
+    workers.splice(index, 1);
+    if (!entry.ready) {
+      console.error(`Could not start regex search worker: ${error.message}`);
+      workersUnavailable = true;
+      if (entry.current !== undefined) {
+        queue.unshift(entry.current);
+      }
+    } else {
+      entry.current?.reject(error);
+    }
+    entry.current = undefined;
+    dispatch();
+  };
+  worker.on('error', fail);
+  worker.on('exit', (code) => fail(new Error(`Regex search worker exited with code ${code}`)));
+
+  workers.push(entry);
+  return entry;
+}
+
+/**
+ * Hands queued batches to idle workers, starting workers up to the pool size
+ */
+function dispatch(): void {
+  while (queue.length > 0) {
+    if (workersUnavailable) {
+      const batch = queue.shift()!;
+      searchBatch(batch.task).then(batch.resolve, batch.reject);
+      continue;
+    }
+
+    let entry = workers.find((candidate) => candidate.current === undefined);
+    if (entry === undefined && workers.length < POOL_SIZE) {
+      entry = startWorker();
+      if (entry === undefined) {
+        continue;
+      }
+    }
+    if (entry === undefined) {
+      return;
+    }
+
+    const batch = queue.shift()!;
+    entry.current = batch;
+    // Busy workers keep the process alive; idle ones do not
+    entry.worker.ref();
+    entry.worker.postMessage(batch.task);
+  }
+}
+
+/**
+ * Searches a batch of files on the worker pool. Batches are served in the
+ * order they are queued, so searches running side by side share the workers.
+ * @param batch The files, patterns and filters to search with
+ * @param signal Aborting it takes the batch off the queue if no worker has
+ * started it yet, rejecting the returned promise
+ * @returns The files of the batch whose contents satisfy the patterns
+ */
+export function runRegexSearchBatch(
+  batch: RegexSearchBatch,
+  signal?: AbortSignal
+): Promise<RegexFileMatch[]> {
+  return new Promise((resolve, reject) => {
+    const cancel = (): void => {
+      const index = queue.indexOf(queued);
+      if (index !== -1) {
+        queue.splice(index, 1);
+        reject(new Error('Regex search batch cancelled'));
+      }
+    };
+    const queued: QueuedBatch = {
+      task: { ...batch, id: nextTaskId++ },
+      resolve: (matched) => {
+        signal?.removeEventListener('abort', cancel);
+        resolve(matched);
+      },
+      reject: (error) => {
+        signal?.removeEventListener('abort', cancel);
+        reject(error);
+      },
+    };
+    signal?.addEventListener('abort', cancel, { once: true });
+    queue.push(queued);
+    dispatch();
+  });
+}
+
+/**
+ * Number of batches the pool can search at the same time
+ */
+export function getRegexSearchPoolSize(): number {
+  return workersUnavailable ? 1 : POOL_SIZE;
+}
@@ -0,0 +1,216 @@
+import { promises as fs } from 'fs';
+import { isMainThread, parentPort } from 'worker_threads';
+import type { FileRegexMatches, RegexMatch } from '../types/index.js';
+import { looksBinary } from './binaryFiles.js';
+import type { MatchMode } from './patternMatcher.js';
+
+/**
+ * A batch of files to search, sent from the pool to a worker
+ */
+export interface RegexSearchTask {
+  id: number;
+  files: string[];
+  /**
+   * Compiled patterns as source and flags, without `g` or `y`, and the
+   * patterns they were compiled from
+   */
+  patterns: Array<{ pattern: string; source: string; flags: string }>;
+  matchMode: MatchMode;
+  /** List the matched lines of each matching file */
+  listMatches?: { contextLines: number; maxMatches: number };
+  /** Files larger than this many bytes are not read */
+  maxFileSize: number;
+  skipBinary: boolean;
+  /** Files modified before this time (ms since the epoch) are skipped */
+  modifiedAfter?: number;
+}
+
+/**
+ * A file whose contents satisfy the patterns, with its matched lines when the
+ * task lists them
+ */
+export interface RegexFileMatch {
+  filePath: string;
+  matches?: FileRegexMatches;
+}
+
+/**
+ * The files of a batch whose contents satisfy the patterns
+ */
+export interface RegexSearchResult {
+  id: number;
+  matched: RegexFileMatch[];
+  error?: string;
+}
+
+/**
+ * Sent by a worker once its script has loaded and it accepts tasks
+ */
+export interface RegexWorkerReady {
+  ready: true;
+}
+
+/**
+ * Returns the zero-based index of the line containing `offset`
+ */
+function lineIndexAt(lineStarts: number[], offset: number): number {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (lineStarts[mid]! <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Lists the lines of a file matched by the regex patterns, each with
+ * `contextLines` lines before and after it. A match spanning several lines
+ * (with the `s` flag or patterns containing line breaks) covers all of them.
+ * Matches starting on the same line are listed once, under the first pattern
+ * that matched there.
+ */
+function listMatches(
+  content: string,
+  patterns: Array<{ pattern: string; regex: RegExp }>,
+  contextLines: number,
+  maxMatches: number
+): FileRegexMatches {
+  const lines = content.split('\n');
+  const lineStarts: number[] = [];
+  let offset = 0;
+  for (const line of lines) {
+    lineStarts.push(offset);
+    offset += line.length + 1;
+  }
+
+  // Index of the line a match starts on -> first pattern matching there and
+  // the last line the match covers
+  const matchedLines = new Map<number, { pattern: string; endIndex: number }>();
+  for (const { pattern, regex } of patterns) {
+    for (const match of content.matchAll(new RegExp(regex.source, `${regex.flags}g`))) {
+      const index = lineIndexAt(lineStarts, match.index);
+      const endIndex = lineIndexAt(lineStarts, match.index + Math.max(0, match[0].length - 1));
+      if (!matchedLines.has(index)) {
+        matchedLines.set(index, { pattern, endIndex });
+      }
+    }
+  }
+
+  // Ignore the empty line after a trailing line break
+  const lastLine = lines[lines.length - 1] === '' ? lines.length - 1 : lines.length;
+  const matches: RegexMatch[] = Array.from(matchedLines.entries())
+    .sort(([a], [b]) => a - b)
+    .slice(0, maxMatches)
+    .map(([index, { pattern, endIndex }]) => {
+      const start = Math.max(0, index - contextLines);
+      const end = Math.max(endIndex + 1, Math.min(lastLine, endIndex + contextLines + 1));
+      return {
+        line: index + 1,
+        endLine: endIndex + 1,
+        pattern,
+        contextStart: start + 1,
+        lines: lines.slice(start, end).map((line) => line.trimEnd()),
+      };
+    });
+
+  return { matches, total: matchedLines.size };
+}
+
+/**
+ * Searches one file, reading it only when it passes the size, age and binary
+ * checks
+ * @returns The match for the file, or undefined when its contents do not
+ * satisfy the patterns
+ */
+async function searchFile(
+  filePath: string,
+  task: RegexSearchTask,
+  patterns: Array<{ pattern: string; regex: RegExp }>
+): Promise<RegexFileMatch | undefined> {
+  const stats = await fs.stat(filePath);
+  if (!stats.isFile() || stats.size > task.maxFileSize) {
+    return undefined;
+  }
+  if (task.modifiedAfter !== undefined && stats.mtimeMs < task.modifiedAfter) {
+    return undefined;
+  }
+
+  const buffer = await fs.readFile(filePath);
+  if (task.skipBinary && looksBinary(buffer)) {
+    return undefined;
+  }
+
+  const content = buffer.toString('utf-8');
+  const matched =
+    task.matchMode === 'all'
+      ? patterns.every(({ regex }) => regex.test(content))
+      : patterns.some(({ regex }) => regex.test(content));
+  if (!matched) {
+    return undefined;
+  }
+
+  // The matched lines are listed while the file is still in memory
+  return task.listMatches !== undefined
+    ? {
+        filePath,
+        matches: listMatches(
+          content,
+          patterns,
+          task.listMatches.contextLines,
+          task.listMatches.maxMatches
+        ),
+      }
+    : { filePath };
+}
+
+/**
+ * Searches a batch of files one at a time, so at most one file is held in
+ * memory per worker
+ * @param task The files, patterns and filters of the batch
+ * @returns The files whose contents satisfy the patterns, in batch order
+ */
+export async function searchBatch(task: RegexSearchTask): Promise<RegexFileMatch[]> {
+  const patterns = task.patterns.map(({ pattern, source, flags }) => ({
+    pattern,
+    regex: new RegExp(source, flags),
+  }));
+  const matched: RegexFileMatch[] = [];
+
+  for (const filePath of task.files) {
+    try {
+      const match = await searchFile(filePath, task, patterns);
+      if (match !== undefined) {
+        matched.push(match);
+      }
+    } catch (error) {
+      // Skip files that can't be read (deleted, permission issues, etc.)
+      const err = error as NodeJS.ErrnoException;
+      if (err.code !== 'ENOENT' && err.code !== 'EISDIR') {
+        console.error(`Could not read file ${filePath}: ${err.message}`);
+      }
+    }
+  }
+
+  return matched;
+}
+
+if (!isMainThread && parentPort !== null) {
+  const port = parentPort;
+  port.on('message', (task: RegexSearchTask) => {
+    searchBatch(task).then(
+      (matched) => port.postMessage({ id: task.id, matched } satisfies RegexSearchResult),
+      (error: unknown) =>
+        port.postMessage({
+          id: task.id,
+          matched: [],
+          error: (error as Error).message,
+        } satisfies RegexSearchResult)
+    );
+  });
+  port.postMessage({ ready: true } satisfies RegexWorkerReady);
+}
@@ -0,0 +1,39 @@
+import * as path from 'path';
+
+/**
+ * Resolves the directories to search from the request's directory filters.
+ * Filters are absolute paths inside a searchable directory, or names matched
+ * against the searchable directories' base names.
+ */
+export function resolveSearchDirectories(
+  filters: string[] | undefined,
+  searchable: string[]
+): string[] {
+  if (filters === undefined || filters.length === 0) {
+    return searchable;
+  }
+
+  const directories = new Set<string>();
+  for (const filter of filters) {
+    if (path.isAbsolute(filter)) {
+      const resolved = path.resolve(filter);
+      const inside = searchable.some((dir) => {
+        const relative = path.relative(dir, resolved);
+        return !relative.startsWith('..') && !path.isAbsolute(relative);
+      });
+      if (inside) {
+        directories.add(resolved);
+      }
+      continue;
+    }
+
+    const lower = filter.toLowerCase();
+    for (const dir of searchable) {
+      if (path.basename(dir).toLowerCase().includes(lower)) {
+        directories.add(dir);
+      }
+    }
+  }
+
+  return Array.from(directories);
+}